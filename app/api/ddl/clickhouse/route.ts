@@ -0,0 +1,48 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createClient, type ClickHouseClient } from "@clickhouse/client"
+import { validateCreateTableQuery } from "@/lib/import/ddl"
+import { explainCreateTableQuery, tableExists } from "@/lib/import/target"
+import { SqlValidationError } from "@/lib/sql"
+
+// Check the CREATE TABLE statement of an import against the server without creating anything
+export async function POST(request: NextRequest) {
+  let client: ClickHouseClient | undefined
+
+  try {
+    const body = await request.json()
+    const { host, port, database, username, jwtToken, useSSL, tableName, columns, query } = body
+
+    // Validate required fields
+    if (!host || !port || !database || !tableName || !query) {
+      return NextResponse.json({ error: "Missing required parameters" }, { status: 400 })
+    }
+
+    if (!Array.isArray(columns) || !columns.every((name) => typeof name === "string")) {
+      return NextResponse.json({ error: "Columns must be a list of names" }, { status: 400 })
+    }
+
+    const statement = validateCreateTableQuery(query, tableName)
+
+    // Create ClickHouse client
+    client = createClient({
+      host: `${useSSL ? "https" : "http"}://${host}:${port}`,
+      database,
+      username,
+      password: jwtToken || undefined,
+    })
+
+    // The statement only runs if the table doesn't exist yet or is replaced
+    const declared = await explainCreateTableQuery(client, statement, columns)
+    const exists = await tableExists(client, tableName)
+
+    return NextResponse.json({ columns: declared, tableExists: exists })
+  } catch (error) {
+    console.error("Error validating CREATE TABLE statement:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "An unknown error occurred" },
+      { status: error instanceof SqlValidationError ? 400 : 500 },
+    )
+  } finally {
+    await client?.close()
+  }
+}
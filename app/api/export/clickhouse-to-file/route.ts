@@ -1,5 +1,6 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { createClient } from "@clickhouse/client"
+import { quoteIdentifier } from "@/lib/sql"
 import { createWriteStream } from "fs"
 import * as path from "path"
 import * as fs from "fs/promises"
@@ -42,10 +43,10 @@ export async function GET(request: NextRequest) {
 
           // Determine the query to execute
           let exportQuery: string
-          const columnList = columns.join(", ")
+          const columnList = columns.map(quoteIdentifier).join(", ")
 
           if (queryType === "table") {
-            exportQuery = `SELECT ${columnList} FROM ${tableName}`
+            exportQuery = `SELECT ${columnList} FROM ${quoteIdentifier(tableName)}`
           } else {
             exportQuery = `SELECT ${columnList} FROM (${query})`
           }
@@ -0,0 +1,28 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createReadStream } from "fs"
+import { Readable } from "stream"
+import { getImportJob } from "@/lib/import/jobs"
+
+// Download the rows an import could not load as-is
+export async function GET(request: NextRequest) {
+  const jobId = new URL(request.url).searchParams.get("jobId")
+
+  if (!jobId) {
+    return NextResponse.json({ error: "Missing required parameters" }, { status: 400 })
+  }
+
+  const job = getImportJob(jobId)
+
+  if (!job?.rejectFile) {
+    return NextResponse.json({ error: "No rejected rows for this import" }, { status: 404 })
+  }
+
+  const stream = Readable.toWeb(createReadStream(job.rejectFile)) as ReadableStream<Uint8Array>
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/csv",
+      "Content-Disposition": `attachment; filename="${job.tableName.replace(/[^\w.-]/g, "_")}_rejects.csv"`,
+    },
+  })
+}
@@ -0,0 +1,54 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createClient } from "@clickhouse/client"
+import { getImportJob, resumeImportJob } from "@/lib/import/jobs"
+import { loadCheckpoint } from "@/lib/import/checkpoint"
+import { runImport } from "@/lib/import/pipeline"
+
+// Continue an interrupted import from its last committed batch, using the upload it kept
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { jobId, host, port, database, username, jwtToken, useSSL } = body
+
+    if (!jobId || !host || !port || !database) {
+      return NextResponse.json({ error: "Missing required parameters" }, { status: 400 })
+    }
+
+    if (getImportJob(jobId)?.status === "running") {
+      return NextResponse.json({ error: "The import is still running" }, { status: 409 })
+    }
+
+    const checkpoint = await loadCheckpoint(jobId)
+
+    if (!checkpoint) {
+      return NextResponse.json({ error: "There is no checkpoint to resume this import from" }, { status: 404 })
+    }
+
+    // Create ClickHouse client
+    const client = createClient({
+      host: `${useSSL ? "https" : "http"}://${host}:${port}`,
+      database,
+      username,
+      password: jwtToken || undefined,
+    })
+
+    const { settings, position } = checkpoint
+    const job = resumeImportJob(jobId, settings.tableName, {
+      progress: position?.progress ?? 0,
+      rowsProcessed: position?.rowsProcessed ?? 0,
+      batchesDone: position?.batchesDone ?? 0,
+      rowsRejected: position ? position.rejectCount - position.rowsDefaulted : 0,
+      rowsDefaulted: position?.rowsDefaulted ?? 0,
+      deduplicatedBatches: position?.deduplicatedBatches ?? [],
+    })
+    runImport(job, { ...settings, client, checkpoint })
+
+    return NextResponse.json({ jobId: job.id }, { status: 202 })
+  } catch (error) {
+    console.error("Error resuming import:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "An unknown error occurred" },
+      { status: 500 },
+    )
+  }
+}
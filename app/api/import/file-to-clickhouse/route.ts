@@ -1,27 +1,69 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { createClient } from "@clickhouse/client"
-import * as fs from "fs/promises"
-import * as path from "path"
-import * as os from "os"
-import { parse } from "csv-parse/sync"
+import { spoolUpload, removeUpload, type SpooledUpload } from "@/lib/import/upload"
+import { createImportJob, getImportJob, subscribeToImportJob, type ImportJobState } from "@/lib/import/jobs"
+import { runImport } from "@/lib/import/pipeline"
+import { validateCreateTableQuery, validateTableOptions, WRITE_MODES, type WriteMode } from "@/lib/import/ddl"
+import { explainCreateTableQuery } from "@/lib/import/target"
+import { columnSteps, parseMapping, type MappedColumn } from "@/lib/import/mapping"
+import { normalizeColumnType, parseJsonField, quoteIdentifier, SqlValidationError } from "@/lib/sql"
+import { parseErrorLimit, ROW_ERROR_ACTIONS, type RowErrorAction } from "@/lib/import/error-policy"
+import { isSupportedEncoding, AUTO_ENCODING } from "@/lib/import/encoding"
+import { FILE_FORMATS, NESTED_MODES, type FileFormat, type NestedMode } from "@/lib/import/formats"
+import { isValidCellRange, parseHeaderRow } from "@/lib/import/xlsx"
+import { csvDialectError, parseCsvDialect } from "@/lib/import/csv-dialect"
+import { headerRulesError, parseHeaderRules } from "@/lib/import/headers"
+import { decompressorError, detectCompression } from "@/lib/import/compression"
+
+// A column of the request, before its name and type are checked
+function isColumnEntry(col: unknown): col is MappedColumn {
+  return (
+    typeof col === "object" &&
+    col !== null &&
+    typeof (col as MappedColumn).name === "string" &&
+    typeof (col as MappedColumn).type === "string"
+  )
+}
 
 // This is a streaming API endpoint that uses Server-Sent Events (SSE)
 export async function GET(request: NextRequest) {
   const searchParams = new URL(request.url).searchParams
-  const filename = searchParams.get("filename")
-  const tableName = searchParams.get("tableName")
+  const jobId = searchParams.get("jobId")
 
-  if (!filename || !tableName) {
+  if (!jobId) {
     return NextResponse.json({ error: "Missing required parameters" }, { status: 400 })
   }
 
+  const job = getImportJob(jobId)
+
+  if (!job) {
+    return NextResponse.json({ error: "Import job not found" }, { status: 404 })
+  }
+
   // Create response stream for SSE
   const encoder = new TextEncoder()
+  let unsubscribe = () => {}
+
   const stream = new ReadableStream({
     start(controller) {
-      // This is just a placeholder for the SSE connection
-      // The actual import happens in the POST handler
-      // We'll send progress updates from there
+      const send = (state: ImportJobState) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(state)}\n\n`))
+
+        // Close the stream once the job has finished
+        if (state.complete || state.error) {
+          unsubscribe()
+          controller.close()
+        }
+      }
+
+      // Send the current state first, so late subscribers still get the outcome
+      if (job.status === "running") {
+        unsubscribe = subscribeToImportJob(job, send)
+      }
+      send(job.state)
+    },
+    cancel() {
+      unsubscribe()
     },
   })
 
@@ -35,37 +77,143 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  let upload: SpooledUpload | undefined
+
   try {
-    const formData = await request.formData()
-    const file = formData.get("file") as File
-    const delimiter = (formData.get("delimiter") as string) || ","
-    const hasHeader = formData.get("hasHeader") === "true"
-    const host = formData.get("host") as string
-    const port = formData.get("port") as string
-    const database = formData.get("database") as string
-    const username = formData.get("username") as string
-    const jwtToken = formData.get("jwtToken") as string
-    const useSSL = formData.get("useSSL") === "true"
-    const tableName = formData.get("tableName") as string
-    const columnsJson = formData.get("columns") as string
-
-    if (!file || !host || !port || !database || !tableName || !columnsJson) {
+    // Stream the uploaded file to a temporary location
+    upload = await spoolUpload(request, "csv-import-")
+    const { fields, file } = upload
+    const format = (fields.format || "csv") as FileFormat
+    const delimiter = fields.delimiter || ","
+    const hasHeader = fields.hasHeader === "true"
+    const dialect = parseCsvDialect(fields.dialect)
+    const headerRules = parseHeaderRules(fields.headerRules)
+    const nested = (fields.nested || "flatten") as NestedMode
+    const encoding = fields.encoding || AUTO_ENCODING
+    // Member of a zip archive to load
+    const member = fields.member || undefined
+    // Sheet of a workbook to load, its cells and the row holding the column names
+    const sheet = fields.sheet || undefined
+    const range = fields.range || undefined
+    const headerRow = parseHeaderRow(fields.headerRow)
+    const host = fields.host
+    const port = fields.port
+    const database = fields.database
+    const username = fields.username
+    const jwtToken = fields.jwtToken
+    const useSSL = fields.useSSL === "true"
+    const tableName = fields.tableName
+    const columnsJson = fields.columns
+    const tableOptionsJson = fields.tableOptions
+    // CREATE TABLE statement edited in the browser, run instead of the generated one
+    const createTableQueryField = fields.createTableQuery || undefined
+    const writeMode = (fields.writeMode || "append") as WriteMode
+    // Load a full refresh into a staging table and swap it in once it is complete
+    const staging = fields.staging === "true"
+    const mappingJson = fields.mapping
+    const onError = (fields.onError || "abort") as RowErrorAction
+    const maxErrors = parseErrorLimit(fields.maxErrors)
+    const maxErrorPercent = parseErrorLimit(fields.maxErrorPercent)
+
+    if (!file || !host || !port || !database || !tableName || (!columnsJson && !mappingJson)) {
       return NextResponse.json({ error: "Missing required parameters" }, { status: 400 })
     }
 
-    const columns = JSON.parse(columnsJson)
+    if (!WRITE_MODES.includes(writeMode)) {
+      return NextResponse.json({ error: `Unsupported write mode "${writeMode}"` }, { status: 400 })
+    }
+
+    if (staging && writeMode !== "truncate" && writeMode !== "replace") {
+      return NextResponse.json(
+        { error: "Only imports that truncate or replace the table can load through a staging table" },
+        { status: 400 },
+      )
+    }
+
+    if (!FILE_FORMATS.includes(format)) {
+      return NextResponse.json({ error: `Unsupported file format "${format}"` }, { status: 400 })
+    }
+
+    if (!NESTED_MODES.includes(nested)) {
+      return NextResponse.json({ error: `Unsupported nesting mode "${nested}"` }, { status: 400 })
+    }
+
+    const dialectError = csvDialectError(dialect, delimiter) ?? headerRulesError(headerRules)
+    if (dialectError) {
+      return NextResponse.json({ error: dialectError }, { status: 400 })
+    }
+
+    if (!isSupportedEncoding(encoding)) {
+      return NextResponse.json({ error: `Unsupported encoding "${encoding}"` }, { status: 400 })
+    }
+
+    if (range && !isValidCellRange(range)) {
+      return NextResponse.json({ error: `Invalid cell range "${range}"` }, { status: 400 })
+    }
+
+    if (Number.isNaN(headerRow)) {
+      return NextResponse.json({ error: "The header row must be a row number from 1" }, { status: 400 })
+    }
+
+    // Refuse a compressed upload the server has no tool for, instead of failing once the import runs.
+    // Workbooks are zip archives of their own and aren't decompressed.
+    const toolError = format === "xlsx" ? undefined : await decompressorError(await detectCompression(file.path, member))
+    if (toolError) {
+      return NextResponse.json({ error: toolError }, { status: 400 })
+    }
+
+    if (!ROW_ERROR_ACTIONS.includes(onError)) {
+      return NextResponse.json({ error: `Unsupported error policy "${onError}"` }, { status: 400 })
+    }
+
+    if (Number.isNaN(maxErrors) || Number.isNaN(maxErrorPercent) || (maxErrorPercent ?? 0) > 100) {
+      return NextResponse.json(
+        { error: "The maximum error count and percentage must be non-negative numbers, the percentage at most 100" },
+        { status: 400 },
+      )
+    }
+
+    // A mapping loads into an existing table, so the column list is taken from the table instead
+    const mapping = mappingJson ? parseMapping(parseJsonField(mappingJson, "mapping")) : undefined
+
+    if (mapping && writeMode !== "append" && writeMode !== "truncate") {
+      return NextResponse.json(
+        { error: "Mapped imports load into an existing table and can only append or truncate" },
+        { status: 400 },
+      )
+    }
 
-    if (!Array.isArray(columns) || columns.length === 0) {
+    if (mapping && createTableQueryField) {
+      return NextResponse.json({ error: "Mapped imports load into an existing table and create none" }, { status: 400 })
+    }
+
+    const requestedColumns = mapping ? [] : parseJsonField(columnsJson, "columns")
+
+    if (!Array.isArray(requestedColumns) || (!mapping && requestedColumns.length === 0)) {
       return NextResponse.json({ error: "At least one column must be selected" }, { status: 400 })
     }
 
-    // Create a temporary file
-    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "csv-import-"))
-    const filePath = path.join(tempDir, file.name)
+    if (!requestedColumns.every(isColumnEntry)) {
+      return NextResponse.json({ error: "Every column must have a name and a type" }, { status: 400 })
+    }
 
-    // Write the uploaded file to the temporary location
-    const buffer = Buffer.from(await file.arrayBuffer())
-    await fs.writeFile(filePath, buffer)
+    // Reject names and types that cannot be safely placed in the DDL before any work starts
+    quoteIdentifier(tableName)
+    // Columns come from the file column of the same name unless they name another source
+    const columns: MappedColumn[] = requestedColumns.map((col) => {
+      quoteIdentifier(col.name)
+      return {
+        name: col.name,
+        type: normalizeColumnType(col.type),
+        source: col.source ?? { kind: "column", column: col.name },
+        ...columnSteps(col),
+      }
+    })
+    const tableOptions = validateTableOptions(
+      tableOptionsJson ? parseJsonField(tableOptionsJson, "table options") : {},
+      columns,
+    )
+    const createTableQuery = createTableQueryField && validateCreateTableQuery(createTableQueryField, tableName)
 
     // Create ClickHouse client
     const client = createClient({
@@ -75,105 +223,58 @@ export async function POST(request: NextRequest) {
       password: jwtToken || undefined,
     })
 
-    // Create the table if it doesn't exist
-    const createTableQuery = `
-      CREATE TABLE IF NOT EXISTS ${tableName} (
-        ${columns.map((col) => `${col.name} ${col.type}`).join(", ")}
-      ) ENGINE = MergeTree() ORDER BY tuple()
-    `
-
-    await client
-      .query({
-        query: createTableQuery,
-      })
-      .exec()
-
-    // Read and parse the CSV file
-    const fileContent = await fs.readFile(filePath, "utf-8")
+    // An edited statement is parsed by ClickHouse up front, so a mistake in it is reported before the upload is read
+    if (createTableQuery) {
+      try {
+        await explainCreateTableQuery(client, createTableQuery, columns.map((col) => col.name))
+      } catch (error) {
+        await client.close()
+        throw error
+      }
+    }
 
-    // Parse the CSV content
-    const parseOptions = {
+    // Run the import in the background. Progress is published on the job
+    // and streamed to the browser by the GET handler. The import removes
+    // the upload when done, or keeps it if it fails and can be resumed.
+    const job = createImportJob(tableName)
+    runImport(job, {
+      client,
+      uploadDir: upload.tempDir,
+      file,
+      encoding,
+      member,
+      format,
       delimiter,
-      columns: hasHeader,
-      skip_empty_lines: true,
-      trim: true,
-    }
-
-    const records = parse(fileContent, parseOptions)
-
-    // Prepare data for insertion
-    let rows: any[][] = []
-    const columnNames = columns.map((col) => col.name)
-
-    if (hasHeader) {
-      // For files with headers, records is an array of objects
-      rows = records.map((record: any) => columnNames.map((col) => record[col]))
-    } else {
-      // For files without headers, records is an array of arrays
-      const columnIndices = columnNames.map((_, i) => i)
-      rows = records.map((record: any) => columnIndices.map((i) => record[i]))
-    }
-
-    // Insert data in batches
-    const batchSize = 1000
-    const totalRows = rows.length
-    let processedRows = 0
-
-    for (let i = 0; i < totalRows; i += batchSize) {
-      const batch = rows.slice(i, i + batchSize)
-
-      // Prepare the insert query
-      const insertQuery = `
-        INSERT INTO ${tableName} (${columnNames.join(", ")})
-        VALUES
-      `
-
-      // Format the values for insertion
-      const values = batch
-        .map((row) => {
-          return `(${row
-            .map((val: any) => {
-              if (val === null || val === undefined || val === "") {
-                return "NULL"
-              }
-              if (typeof val === "string") {
-                return `'${val.replace(/'/g, "''")}'`
-              }
-              return val
-            })
-            .join(", ")})`
-        })
-        .join(", ")
-
-      // Execute the insert query
-      await client
-        .query({
-          query: insertQuery + values,
-        })
-        .exec()
-
-      // Update progress
-      processedRows += batch.length
-      const progress = Math.round((processedRows / totalRows) * 100)
-
-      // Send progress update via SSE
-      // This would be handled by the client-side EventSource
-    }
-
-    // Clean up the temporary file
-    await fs.unlink(filePath)
-    await fs.rmdir(tempDir)
-
-    return NextResponse.json({
-      success: true,
-      recordCount: totalRows,
+      hasHeader,
+      dialect,
+      headerRules,
+      nested,
+      sheet,
+      range,
+      headerRow,
       tableName,
+      columns,
+      tableOptions,
+      createTableQuery,
+      writeMode,
+      staging,
+      mapping,
+      errorPolicy: { onError, maxErrors, maxErrorPercent },
     })
+    // The background import owns the upload from here on
+    upload = undefined
+
+    return NextResponse.json({ jobId: job.id }, { status: 202 })
   } catch (error) {
     console.error("Error importing to ClickHouse:", error)
     return NextResponse.json(
       { error: error instanceof Error ? error.message : "An unknown error occurred" },
-      { status: 500 },
+      { status: error instanceof SqlValidationError ? 400 : 500 },
     )
+  } finally {
+    // Clean up the temporary file unless the import took it over
+    if (upload) {
+      await removeUpload(upload)
+    }
   }
 }
@@ -1,83 +1,264 @@
 import { type NextRequest, NextResponse } from "next/server"
-import * as fs from "fs/promises"
-import * as path from "path"
-import * as os from "os"
-import { parse } from "csv-parse/sync"
+import { CsvError } from "csv-parse"
+import { SqlValidationError } from "@/lib/sql"
+import { spoolUpload, removeUpload } from "@/lib/import/upload"
+import { recordStartLine, resolveDelimiter, sourceColumnNames } from "@/lib/import/csv"
+import { csvDialectError, parseCsvDialect, type RaggedRowReport } from "@/lib/import/csv-dialect"
+import { headerRulesError, parseHeaderRules } from "@/lib/import/headers"
+import { createRecordStream, type RecordOptions, type SourceRecord } from "@/lib/import/records"
+import { FILE_FORMATS, NESTED_MODES, type FileFormat, type NestedMode } from "@/lib/import/formats"
+import { ColumnTypeInferrer, type ColumnInference } from "@/lib/import/infer"
+import { isSupportedEncoding, AUTO_ENCODING } from "@/lib/import/encoding"
+import { extractFile, resolveEncoding } from "@/lib/import/transcode"
+import {
+  decompressorError,
+  detectCompression,
+  listZipMembers,
+  openDecompressed,
+  type Compression,
+} from "@/lib/import/compression"
+import { readParquetMetadata } from "@/lib/import/parquet-metadata"
+import { createParquetStream, parquetColumns } from "@/lib/import/parquet"
+import { isValidCellRange, parseHeaderRow, readWorkbook } from "@/lib/import/xlsx"
+
+// Number of rows returned for the preview
+const PREVIEW_ROWS = 100
+
+// Number of rows with too few or too many fields returned to look at, of each kind
+const RAGGED_ROW_EXAMPLES = 5
+
+// Number of rows scanned for type inference unless the request asks otherwise
+const DEFAULT_INFERENCE_ROWS = 10000
+
+// Preview the first rows of a Parquet file, which are all that is decoded. Its types come from
+// the file's schema, so nothing is inferred and every preview value fits them.
+async function previewParquet(filePath: string) {
+  const columns = parquetColumns(await readParquetMetadata(filePath))
+  const names = columns.map((column) => column.name)
+
+  const rows: string[][] = []
+  const stream = createParquetStream(filePath, { columns: names, end: PREVIEW_ROWS })
+  for await (const { record } of stream as AsyncIterable<SourceRecord>) {
+    rows.push(record)
+  }
+
+  const inference = columns.map(({ name, type, nullable }, i): ColumnInference => {
+    const emptyCount = rows.filter((row) => row[i] === "").length
+    return {
+      name,
+      type,
+      nullable,
+      nullRatio: rows.length > 0 ? emptyCount / rows.length : 0,
+      confidence: 1,
+      rowsScanned: rows.length,
+      violationCount: 0,
+      violations: [],
+    }
+  })
+  return { columns: names, rows, inference }
+}
 
 export async function POST(request: NextRequest) {
   try {
-    const formData = await request.formData()
-    const file = formData.get("file") as File
-    const delimiter = (formData.get("delimiter") as string) || ","
-    const hasHeader = formData.get("hasHeader") === "true"
+    // Stream the uploaded file to a temporary location
+    const upload = await spoolUpload(request, "csv-parse-")
 
-    if (!file) {
-      return NextResponse.json({ error: "No file provided" }, { status: 400 })
-    }
+    try {
+      const { fields, file } = upload
+      const format = (fields.format || "csv") as FileFormat
+      const delimiter = fields.delimiter || ","
+      const hasHeader = fields.hasHeader === "true"
+      const dialect = parseCsvDialect(fields.dialect)
+      const headerRules = parseHeaderRules(fields.headerRules)
+      const nested = (fields.nested || "flatten") as NestedMode
+      const range = fields.range || undefined
+      const headerRow = parseHeaderRow(fields.headerRow)
+      // Either a row count or "all" to scan the entire file
+      const inferenceRows =
+        fields.inferenceRows === "all" ? Infinity : Number(fields.inferenceRows) || DEFAULT_INFERENCE_ROWS
+
+      if (!file) {
+        return NextResponse.json({ error: "No file provided" }, { status: 400 })
+      }
 
-    // Create a temporary file
-    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "csv-parse-"))
-    const filePath = path.join(tempDir, file.name)
+      if (!FILE_FORMATS.includes(format)) {
+        return NextResponse.json({ error: `Unsupported file format "${format}"` }, { status: 400 })
+      }
 
-    // Write the uploaded file to the temporary location
-    const buffer = Buffer.from(await file.arrayBuffer())
-    await fs.writeFile(filePath, buffer)
+      if (!NESTED_MODES.includes(nested)) {
+        return NextResponse.json({ error: `Unsupported nesting mode "${nested}"` }, { status: 400 })
+      }
 
-    // Read and parse the CSV file
-    const fileContent = await fs.readFile(filePath, "utf-8")
+      const dialectError = csvDialectError(dialect, delimiter) ?? headerRulesError(headerRules)
+      if (dialectError) {
+        return NextResponse.json({ error: dialectError }, { status: 400 })
+      }
 
-    // Parse the CSV content
-    const parseOptions = {
-      delimiter,
-      columns: hasHeader,
-      skip_empty_lines: true,
-      trim: true,
-    }
+      const requestedEncoding = fields.encoding || AUTO_ENCODING
+      if (!isSupportedEncoding(requestedEncoding)) {
+        return NextResponse.json({ error: `Unsupported encoding "${requestedEncoding}"` }, { status: 400 })
+      }
+
+      if (range && !isValidCellRange(range)) {
+        return NextResponse.json({ error: `Invalid cell range "${range}"` }, { status: 400 })
+      }
 
-    const records = parse(fileContent, parseOptions)
+      if (Number.isNaN(headerRow)) {
+        return NextResponse.json({ error: "The header row must be a row number from 1" }, { status: 400 })
+      }
 
-    // Clean up the temporary file
-    await fs.unlink(filePath)
-    await fs.rmdir(tempDir)
+      // A workbook is read from disk as it is, from the sheet asked for or its first sheet
+      const sheets = format === "xlsx" ? (await readWorkbook(file.path)).sheets.map((sheet) => sheet.name) : undefined
+      const sheet = sheets ? fields.sheet || sheets[0] : undefined
+      if (sheet && !sheets?.includes(sheet)) {
+        return NextResponse.json({ error: `The workbook has no sheet "${sheet}"` }, { status: 400 })
+      }
 
-    // If the file has headers, use them as column names
-    let columns: string[] = []
-    let rows: any[][] = []
+      // Decompress the file as it is read, picking a zip archive's member unless one was chosen.
+      // A workbook is a zip archive of its own and is left alone.
+      const compression: Compression = sheets
+        ? { format: "none" }
+        : await detectCompression(file.path, fields.member || undefined)
+      const toolError = await decompressorError(compression)
+      if (toolError) {
+        return NextResponse.json({ error: toolError }, { status: 400 })
+      }
+      const members =
+        compression.format === "zip"
+          ? (await listZipMembers(file.path)).map(({ name, size }) => ({ name, size }))
+          : undefined
 
-    if (hasHeader) {
-      // For files with headers, records is an array of objects
-      if (records.length === 0) {
-        return NextResponse.json({ error: "CSV file is empty" }, { status: 400 })
+      // Parquet is read from disk, as its metadata is at the end of the file. A compressed file
+      // is decompressed next to the upload first, and removed along with it.
+      if (format === "parquet") {
+        const parquetFile = compression.format === "none" ? file : await extractFile(file, compression)
+        const preview = await previewParquet(parquetFile.path)
+        if (preview.rows.length === 0) {
+          return NextResponse.json({ error: "The file has no rows" }, { status: 400 })
+        }
+        return NextResponse.json({ ...preview, encoding: null, compression: { ...compression, members } })
       }
 
-      // Extract column names from the first record's keys
-      columns = Object.keys(records[0])
+      // Detect the encoding unless one was picked, and decode the file to UTF-8 while parsing
+      const encoding = sheets ? undefined : await resolveEncoding(file.path, requestedEncoding, compression)
+      // Detect the delimiter from the first lines unless one was picked
+      const csvDelimiter =
+        format === "csv" ? await resolveDelimiter(file.path, delimiter, dialect, compression, encoding) : delimiter
+      const input = sheets ? file.path : await openDecompressed(file.path, compression)
 
-      // Convert records to rows
-      rows = records.map((record: any) => columns.map((col) => record[col]))
-    } else {
-      // For files without headers, records is an array of arrays
-      if (records.length === 0) {
-        return NextResponse.json({ error: "CSV file is empty" }, { status: 400 })
+      // Parse only as much of the file as the preview and type inference need
+      let columns: string[] | null = null
+      let inferrers: ColumnTypeInferrer[] = []
+      const rows: string[][] = []
+      const rowLimit = Math.max(PREVIEW_ROWS, inferenceRows)
+      let rowCount = 0
+      const raggedRows: RaggedRowReport = {
+        fieldCount: 0,
+        rowsChecked: 0,
+        wholeFile: true,
+        short: { count: 0, examples: [] },
+        long: { count: 0, examples: [] },
       }
 
-      // Generate column names (Column1, Column2, etc.)
-      const columnCount = records[0].length
-      columns = Array.from({ length: columnCount }, (_, i) => `Column${i + 1}`)
+      // Rows with too few or too many fields are read too, so those among the rows read can be counted.
+      // Those the import would reject are left out of the preview and inference.
+      const readOptions: RecordOptions = {
+        format,
+        delimiter: csvDelimiter,
+        hasHeader,
+        ...dialect,
+        shortRows: "pad",
+        longRows: "truncate",
+        nested,
+        encoding,
+        sheet,
+        range,
+        headerRow,
+      }
+      const records = createRecordStream(input, readOptions)
+      for await (const source of records as AsyncIterable<SourceRecord>) {
+        let record = source.record
+        const values = source.fields
 
-      // Use records directly as rows
-      rows = records
-    }
+        if (values) {
+          // JSON records name their values, and a key seen for the first time adds a column.
+          // Its inference counts the value as empty in the rows before.
+          columns ??= []
+          for (const key of Object.keys(values)) {
+            if (!columns.includes(key)) {
+              columns.push(key)
+              const inferrer = new ColumnTypeInferrer(key)
+              for (let i = 0; i < Math.min(rowCount, inferenceRows); i++) inferrer.add("")
+              inferrers.push(inferrer)
+            }
+          }
+          record = columns.map((column) => values[column] ?? "")
+        } else if (!columns) {
+          // If the file has headers, make them into column names by the header rules,
+          // otherwise generate column names (Column1, Column2, etc.)
+          columns = sourceColumnNames(record, hasHeader, headerRules)
+          inferrers = columns.map((name) => new ColumnTypeInferrer(name))
+          if (hasHeader) continue
+        }
 
-    // Limit preview to 100 rows
-    const previewRows = rows.slice(0, 100)
+        if (rowCount >= rowLimit) {
+          raggedRows.wholeFile = false
+          break
+        }
+        raggedRows.rowsChecked++
 
-    return NextResponse.json({ columns, rows: previewRows })
+        if (source.ragged) {
+          const { kind, fieldCount } = source.ragged
+          const report = raggedRows[kind]
+          report.count++
+          if (report.examples.length < RAGGED_ROW_EXAMPLES) {
+            // Lines skipped at the start of the file are counted too
+            const line = recordStartLine(source.info.lines, source.raw) + dialect.skipLeadingLines
+            report.examples.push({ line, fieldCount, raw: source.raw })
+          }
+          if (kind === "short" ? dialect.shortRows === "reject" : dialect.longRows === "reject") continue
+        }
+        rowCount++
+
+        if (rows.length < PREVIEW_ROWS) {
+          rows.push(record)
+        }
+        if (rowCount <= inferenceRows) {
+          inferrers.forEach((inferrer, i) => inferrer.add(record[i]))
+        }
+      }
+
+      if (!columns || rows.length === 0) {
+        return NextResponse.json({ error: "The file has no rows" }, { status: 400 })
+      }
+
+      // Rows read before a JSON key first showed up have no value for it
+      const columnCount = columns.length
+      const previewRows = rows.map((row) => Array.from({ length: columnCount }, (_, i) => row[i] ?? ""))
+
+      const inference = inferrers.map((inferrer) => inferrer.result())
+
+      return NextResponse.json({
+        columns,
+        rows: previewRows,
+        inference,
+        encoding: encoding ?? null,
+        delimiter: csvDelimiter,
+        raggedRows: format === "csv" ? { ...raggedRows, fieldCount: columnCount } : undefined,
+        compression: { ...compression, members },
+        sheets,
+        sheet,
+      })
+    } finally {
+      // Clean up the temporary file
+      await removeUpload(upload)
+    }
   } catch (error) {
     console.error("Error parsing CSV:", error)
+    // A file the parser can't read, or options it can't read it with, is a problem with the request
     return NextResponse.json(
       { error: error instanceof Error ? error.message : "An unknown error occurred" },
-      { status: 500 },
+      { status: error instanceof CsvError || error instanceof SqlValidationError ? 400 : 500 },
     )
   }
 }
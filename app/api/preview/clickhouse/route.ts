@@ -1,5 +1,6 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { createClient } from "@clickhouse/client"
+import { quoteIdentifier, parseLimit, SqlValidationError } from "@/lib/sql"
 
 export async function POST(request: NextRequest) {
   try {
@@ -25,18 +26,19 @@ export async function POST(request: NextRequest) {
 
     // Determine the query to execute
     let previewQuery: string
-    const columnList = columns.join(", ")
+    const columnList = columns.map(quoteIdentifier).join(", ")
 
     if (queryType === "table") {
-      previewQuery = `SELECT ${columnList} FROM ${tableName} LIMIT ${limit}`
+      previewQuery = `SELECT ${columnList} FROM ${quoteIdentifier(tableName)} LIMIT {limit:UInt64}`
     } else {
-      previewQuery = `SELECT ${columnList} FROM (${query}) LIMIT ${limit}`
+      previewQuery = `SELECT ${columnList} FROM (${query}) LIMIT {limit:UInt64}`
     }
 
     // Execute the query
     const result = await client.query({
       query: previewQuery,
       format: "JSONEachRow",
+      query_params: { limit: parseLimit(limit) },
     })
 
     const data = await result.json()
@@ -51,7 +53,7 @@ export async function POST(request: NextRequest) {
     console.error("Error previewing data:", error)
     return NextResponse.json(
       { error: error instanceof Error ? error.message : "An unknown error occurred" },
-      { status: 500 },
+      { status: error instanceof SqlValidationError ? 400 : 500 },
     )
   }
 }
@@ -1,5 +1,6 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { createClient } from "@clickhouse/client"
+import { quoteIdentifier, SqlValidationError } from "@/lib/sql"
 
 export async function POST(request: NextRequest) {
   try {
@@ -31,7 +32,7 @@ export async function POST(request: NextRequest) {
     let schemaQuery: string
 
     if (queryType === "table") {
-      schemaQuery = `DESCRIBE TABLE ${tableName}`
+      schemaQuery = `DESCRIBE TABLE ${quoteIdentifier(tableName)}`
     } else {
       // For custom queries, we need to get the schema by running a LIMIT 0 query
       schemaQuery = `SELECT * FROM (${query}) LIMIT 0`
@@ -71,7 +72,7 @@ export async function POST(request: NextRequest) {
     console.error("Error fetching schema:", error)
     return NextResponse.json(
       { error: error instanceof Error ? error.message : "An unknown error occurred" },
-      { status: 500 },
+      { status: error instanceof SqlValidationError ? 400 : 500 },
     )
   }
 }
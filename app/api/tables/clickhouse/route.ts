@@ -23,7 +23,7 @@ export async function POST(request: NextRequest) {
     const query = `
       SELECT name
       FROM system.tables
-      WHERE database = '${database}'
+      WHERE database = {database:String}
       ORDER BY name
     `
 
@@ -31,6 +31,7 @@ export async function POST(request: NextRequest) {
     const result = await client.query({
       query,
       format: "JSONEachRow",
+      query_params: { database },
     })
 
     const data = await result.json()
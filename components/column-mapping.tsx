@@ -0,0 +1,186 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Loader2, AlertCircle, Database } from "lucide-react"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { suggestMapping, type ColumnMapping, type ColumnSource } from "@/lib/import/mapping"
+
+interface ColumnMappingEditorProps {
+  host: string
+  port: string
+  database: string
+  username: string
+  jwtToken: string
+  useSSL: boolean
+  tableName: string
+  sourceColumns: string[]
+  value: ColumnMapping[]
+  onChange: (value: ColumnMapping[]) => void
+}
+
+// Select values for the non-column sources; file columns are prefixed to keep them apart
+const DEFAULT_SOURCE = "__default__"
+const CONSTANT_SOURCE = "__constant__"
+
+function sourceToValue(source: ColumnSource): string {
+  if (source.kind === "column") return `column:${source.column}`
+  if (source.kind === "constant") return CONSTANT_SOURCE
+  return DEFAULT_SOURCE
+}
+
+export function ColumnMappingEditor({
+  host,
+  port,
+  database,
+  username,
+  jwtToken,
+  useSSL,
+  tableName,
+  sourceColumns,
+  value,
+  onChange,
+}: ColumnMappingEditorProps) {
+  const [tableColumns, setTableColumns] = useState<{ name: string; type: string }[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+
+  // Fetch the target table's columns and pre-fill the mapping from similar names
+  const fetchTableSchema = async () => {
+    try {
+      setLoading(true)
+      setError("")
+
+      const connectionDetails = {
+        host,
+        port,
+        database,
+        username,
+        jwtToken,
+        useSSL,
+        queryType: "table",
+        tableName,
+      }
+
+      const response = await fetch("/api/schema/clickhouse", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(connectionDetails),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || "Failed to fetch table schema")
+      }
+
+      const data = await response.json()
+      setTableColumns(data.columns)
+      onChange(
+        suggestMapping(
+          data.columns.map((col: { name: string }) => col.name),
+          sourceColumns,
+        ),
+      )
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "An unknown error occurred")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Update the source of one table column
+  const updateSource = (index: number, source: ColumnSource) => {
+    const updatedMapping = [...value]
+    updatedMapping[index] = { ...updatedMapping[index], source }
+    onChange(updatedMapping)
+  }
+
+  const handleSourceChange = (index: number, selected: string) => {
+    if (selected === DEFAULT_SOURCE) {
+      updateSource(index, { kind: "default" })
+    } else if (selected === CONSTANT_SOURCE) {
+      updateSource(index, { kind: "constant", value: "" })
+    } else {
+      updateSource(index, { kind: "column", column: selected.slice("column:".length) })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Column Mapping</CardTitle>
+        <CardDescription>Choose where each column of the existing table {tableName} gets its values</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Button variant="outline" onClick={fetchTableSchema} disabled={loading || !tableName}>
+          {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Database className="mr-2 h-4 w-4" />}
+          Fetch Table Schema
+        </Button>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {value.length > 0 && (
+          <div className="border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Table Column</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Source</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {value.map((mapping, index) => (
+                  <TableRow key={mapping.target}>
+                    <TableCell>{mapping.target}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {tableColumns.find((col) => col.name === mapping.target)?.type}
+                    </TableCell>
+                    <TableCell className="space-y-2">
+                      <Select
+                        value={sourceToValue(mapping.source)}
+                        onValueChange={(selected) => handleSourceChange(index, selected)}
+                      >
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="Select source" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={DEFAULT_SOURCE}>Use the column default</SelectItem>
+                          <SelectItem value={CONSTANT_SOURCE}>Constant value</SelectItem>
+                          {sourceColumns.map((column) => (
+                            <SelectItem key={column} value={`column:${column}`}>
+                              {column}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {mapping.source.kind === "constant" && (
+                        <Input
+                          value={mapping.source.value}
+                          onChange={(e) => updateSource(index, { kind: "constant", value: e.target.value })}
+                          placeholder="Constant value"
+                        />
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
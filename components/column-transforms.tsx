@@ -0,0 +1,290 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Trash2, Wand2, X } from "lucide-react"
+import { TRANSFORM_LABELS, type TransformStep } from "@/lib/import/transform"
+import type { MappedColumn } from "@/lib/import/mapping"
+
+type Source = MappedColumn["source"]
+
+export interface ColumnTransformValue {
+  source: Source
+  transforms: TransformStep[]
+}
+
+interface ColumnTransformEditorProps {
+  value: ColumnTransformValue
+  sourceColumns: string[]
+  onChange: (value: ColumnTransformValue) => void
+  // Split the file column into several new columns
+  onSplit?: (separator: string, parts: number) => void
+}
+
+// Starting values when a step or a derived source is picked
+const NEW_STEPS: Record<TransformStep["kind"], TransformStep> = {
+  trim: { kind: "trim" },
+  lowercase: { kind: "lowercase" },
+  replace: { kind: "replace", pattern: "", replacement: "" },
+  defaultIfEmpty: { kind: "defaultIfEmpty", value: "" },
+  cast: { kind: "cast", fallback: "" },
+}
+
+const DERIVED_SOURCES: Record<Exclude<Source["kind"], "column">, { label: string; source: Source }> = {
+  template: { label: "Template", source: { kind: "template", template: "" } },
+  concat: { label: "Concatenate columns", source: { kind: "concat", columns: [], separator: " " } },
+  split: { label: "Part of a split column", source: { kind: "split", column: "", separator: ",", index: 0 } },
+  constant: { label: "Constant value", source: { kind: "constant", value: "" } },
+}
+
+interface SourceEditorProps {
+  source: Source
+  sourceColumns: string[]
+  onChange: (source: Source) => void
+}
+
+// Where a computed column gets its value
+function SourceEditor({ source, sourceColumns, onChange }: SourceEditorProps) {
+  return (
+    <div className="space-y-2">
+      <Label>Value</Label>
+      <Select
+        value={source.kind}
+        onValueChange={(kind) => onChange(DERIVED_SOURCES[kind as keyof typeof DERIVED_SOURCES].source)}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="Select source" />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(DERIVED_SOURCES).map(([kind, { label }]) => (
+            <SelectItem key={kind} value={kind}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {source.kind === "template" && (
+        <Input
+          value={source.template}
+          onChange={(e) => onChange({ ...source, template: e.target.value })}
+          placeholder="{first_name} {last_name}"
+        />
+      )}
+
+      {source.kind === "constant" && (
+        <Input
+          value={source.value}
+          onChange={(e) => onChange({ ...source, value: e.target.value })}
+          placeholder="Constant value"
+        />
+      )}
+
+      {source.kind === "concat" && (
+        <>
+          <div className="flex flex-wrap gap-2 min-h-[24px]">
+            {source.columns.map((column, index) => (
+              <Badge key={index} variant="secondary" className="gap-1">
+                {column}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-4 w-4"
+                  onClick={() => onChange({ ...source, columns: source.columns.filter((_, i) => i !== index) })}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </Badge>
+            ))}
+          </div>
+          <Select value="" onValueChange={(column) => onChange({ ...source, columns: [...source.columns, column] })}>
+            <SelectTrigger>
+              <SelectValue placeholder="Add column" />
+            </SelectTrigger>
+            <SelectContent>
+              {sourceColumns.map((column) => (
+                <SelectItem key={column} value={column}>
+                  {column}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={source.separator}
+            onChange={(e) => onChange({ ...source, separator: e.target.value })}
+            placeholder="Separator"
+          />
+        </>
+      )}
+
+      {source.kind === "split" && (
+        <div className="grid grid-cols-3 gap-2">
+          <Select value={source.column} onValueChange={(column) => onChange({ ...source, column })}>
+            <SelectTrigger>
+              <SelectValue placeholder="Column" />
+            </SelectTrigger>
+            <SelectContent>
+              {sourceColumns.map((column) => (
+                <SelectItem key={column} value={column}>
+                  {column}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={source.separator}
+            onChange={(e) => onChange({ ...source, separator: e.target.value })}
+            placeholder="Separator"
+          />
+          <Input
+            type="number"
+            min={1}
+            value={source.index + 1}
+            onChange={(e) => onChange({ ...source, index: Math.max(0, Number(e.target.value) - 1) })}
+            aria-label="Part number"
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface StepEditorProps {
+  step: TransformStep
+  onChange: (step: TransformStep) => void
+}
+
+// Parameters of a single transformation step
+function StepEditor({ step, onChange }: StepEditorProps) {
+  switch (step.kind) {
+    case "replace":
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            value={step.pattern}
+            onChange={(e) => onChange({ ...step, pattern: e.target.value })}
+            placeholder="Pattern"
+          />
+          <Input
+            value={step.replacement}
+            onChange={(e) => onChange({ ...step, replacement: e.target.value })}
+            placeholder="Replacement ($1 for groups)"
+          />
+        </div>
+      )
+    case "defaultIfEmpty":
+      return (
+        <Input value={step.value} onChange={(e) => onChange({ ...step, value: e.target.value })} placeholder="Default" />
+      )
+    case "cast":
+      return (
+        <Input
+          value={step.fallback}
+          onChange={(e) => onChange({ ...step, fallback: e.target.value })}
+          placeholder="Fallback for values that don't fit the type"
+        />
+      )
+    default:
+      return null
+  }
+}
+
+export function ColumnTransformEditor({ value, sourceColumns, onChange, onSplit }: ColumnTransformEditorProps) {
+  const [separator, setSeparator] = useState(",")
+  const [parts, setParts] = useState("2")
+  const { source, transforms } = value
+
+  const updateStep = (index: number, step: TransformStep) => {
+    const updatedTransforms = [...transforms]
+    updatedTransforms[index] = step
+    onChange({ source, transforms: updatedTransforms })
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Wand2 className="mr-2 h-4 w-4" />
+          {transforms.length > 0 ? `${transforms.length} steps` : "Transform"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[420px] space-y-4" align="end">
+        {source.kind !== "column" && (
+          <SourceEditor
+            source={source}
+            sourceColumns={sourceColumns}
+            onChange={(updatedSource) => onChange({ source: updatedSource, transforms })}
+          />
+        )}
+
+        <div className="space-y-2">
+          <Label>Steps</Label>
+          {transforms.length === 0 && <p className="text-sm text-muted-foreground">Values are loaded as they are</p>}
+          {transforms.map((step, index) => (
+            <div key={index} className="space-y-2 border p-2 rounded-md">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">
+                  {index + 1}. {TRANSFORM_LABELS[step.kind]}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => onChange({ source, transforms: transforms.filter((_, i) => i !== index) })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <StepEditor step={step} onChange={(updatedStep) => updateStep(index, updatedStep)} />
+            </div>
+          ))}
+          <Select
+            value=""
+            onValueChange={(kind) =>
+              onChange({ source, transforms: [...transforms, NEW_STEPS[kind as TransformStep["kind"]]] })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Add step" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(TRANSFORM_LABELS).map(([kind, label]) => (
+                <SelectItem key={kind} value={kind}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {onSplit && (
+          <div className="space-y-2">
+            <Label>Split into columns</Label>
+            <div className="grid grid-cols-3 gap-2">
+              <Input value={separator} onChange={(e) => setSeparator(e.target.value)} placeholder="Separator" />
+              <Input
+                type="number"
+                min={2}
+                value={parts}
+                onChange={(e) => setParts(e.target.value)}
+                aria-label="Number of columns"
+              />
+              <Button
+                variant="outline"
+                onClick={() => onSplit(separator, Number(parts))}
+                disabled={!separator || Number(parts) < 2}
+              >
+                Split
+              </Button>
+            </div>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,184 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Loader2, AlertCircle, CheckCircle2, RotateCcw } from "lucide-react"
+import {
+  buildCreateTableQuery,
+  validateTableOptions,
+  type ImportColumn,
+  type TableOptions,
+  type WriteMode,
+} from "@/lib/import/ddl"
+import { normalizeColumnType } from "@/lib/sql"
+
+interface CreateTablePreviewProps {
+  host: string
+  port: string
+  database: string
+  username: string
+  jwtToken: string
+  useSSL: boolean
+  tableName: string
+  columns: ImportColumn[]
+  tableOptions: TableOptions
+  writeMode: WriteMode
+  // Statement edited by hand, empty to run the generated one
+  value: string
+  onChange: (value: string) => void
+}
+
+// Outcome of the last check, for the statement it was made for
+interface Validation {
+  statement: string
+  error?: string
+  columnCount?: number
+  tableExists?: boolean
+}
+
+// The statement the import route builds, from the columns and options checked the same way
+function generateQuery(tableName: string, columns: ImportColumn[], tableOptions: TableOptions) {
+  if (!tableName) {
+    return { query: "", error: "Enter a table name to see the statement" }
+  }
+  try {
+    const normalized = columns.map((col) => ({ name: col.name, type: normalizeColumnType(col.type) }))
+    const options = validateTableOptions(tableOptions, normalized)
+    return { query: buildCreateTableQuery(tableName, normalized, options), error: "" }
+  } catch (error) {
+    return { query: "", error: error instanceof Error ? error.message : "An unknown error occurred" }
+  }
+}
+
+export function CreateTablePreview({
+  host,
+  port,
+  database,
+  username,
+  jwtToken,
+  useSSL,
+  tableName,
+  columns,
+  tableOptions,
+  writeMode,
+  value,
+  onChange,
+}: CreateTablePreviewProps) {
+  const [loading, setLoading] = useState(false)
+  const [validation, setValidation] = useState<Validation | null>(null)
+
+  const generated = generateQuery(tableName, columns, tableOptions)
+  const statement = value || generated.query
+  // A check only applies while the statement stays as it was checked
+  const result = validation?.statement === statement ? validation : null
+
+  // Have the server parse the statement without running it
+  const validateStatement = async () => {
+    try {
+      setLoading(true)
+      setValidation(null)
+
+      const response = await fetch("/api/ddl/clickhouse", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          host,
+          port,
+          database,
+          username,
+          jwtToken,
+          useSSL,
+          tableName,
+          columns: columns.map((col) => col.name),
+          query: statement,
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to validate the statement")
+      }
+      setValidation({ statement, columnCount: data.columns.length, tableExists: data.tableExists })
+    } catch (error) {
+      setValidation({ statement, error: error instanceof Error ? error.message : "An unknown error occurred" })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const describeExistingTable = () =>
+    writeMode === "replace"
+      ? ` Table ${tableName} exists and will be replaced by a table created with it.`
+      : ` Table ${tableName} already exists, so the import won't run it.`
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Create Table Statement</CardTitle>
+        <CardDescription>
+          The statement the import runs to create the table. Edit it for anything the options above don't cover.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!value && generated.error && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>No statement yet</AlertTitle>
+            <AlertDescription>{generated.error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Textarea
+          value={statement}
+          onChange={(e) => onChange(e.target.value === generated.query ? "" : e.target.value)}
+          className="font-mono text-xs min-h-[200px]"
+          spellCheck={false}
+          aria-label="CREATE TABLE statement"
+        />
+
+        {value && (
+          <p className="text-sm text-muted-foreground">
+            Edited by hand, so changes to the columns and table options no longer show here.
+          </p>
+        )}
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={validateStatement} disabled={loading || !statement}>
+            {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle2 className="mr-2 h-4 w-4" />}
+            Validate
+          </Button>
+          {value && (
+            <Button variant="outline" onClick={() => onChange("")}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Reset
+            </Button>
+          )}
+        </div>
+
+        {result?.error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Invalid statement</AlertTitle>
+            <AlertDescription>{result.error}</AlertDescription>
+          </Alert>
+        )}
+
+        {result && !result.error && (
+          <Alert>
+            <CheckCircle2 className="h-4 w-4" />
+            <AlertTitle>Valid statement</AlertTitle>
+            <AlertDescription>
+              ClickHouse parsed the statement, which declares {result.columnCount} columns.
+              {result.tableExists && describeExistingTable()}
+            </AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
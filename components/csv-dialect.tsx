@@ -0,0 +1,202 @@
+"use client"
+
+import { useState } from "react"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertCircle } from "lucide-react"
+import type { CsvDialect, LongRowAction, RaggedRowReport, ShortRowAction } from "@/lib/import/csv-dialect"
+
+interface CsvDialectEditorProps {
+  value: CsvDialect
+  onChange: (value: CsvDialect) => void
+}
+
+// Null tokens are typed as a comma-separated list
+const toTokens = (text: string) =>
+  text
+    .split(",")
+    .map((token) => token.trim())
+    .filter((token) => token !== "")
+
+// Blank inputs mean no lines are skipped
+const toLineCount = (text: string) => (text === "" ? 0 : Number(text))
+
+export function CsvDialectEditor({ value, onChange }: CsvDialectEditorProps) {
+  // The list is kept as typed, so a trailing comma doesn't vanish while typing the next token
+  const [nullTokens, setNullTokens] = useState(value.nullTokens.join(", "))
+
+  return (
+    <div className="grid grid-cols-3 gap-4">
+      <div className="space-y-2">
+        <Label htmlFor="quote">Quote character</Label>
+        <Input
+          id="quote"
+          value={value.quote}
+          maxLength={1}
+          onChange={(e) => onChange({ ...value, quote: e.target.value })}
+          placeholder="None"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="escape">Escape character</Label>
+        <Input
+          id="escape"
+          value={value.escape}
+          maxLength={1}
+          onChange={(e) => onChange({ ...value, escape: e.target.value })}
+          placeholder="None"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="comment">Comment prefix</Label>
+        <Input
+          id="comment"
+          value={value.comment}
+          onChange={(e) => onChange({ ...value, comment: e.target.value })}
+          placeholder="None, or e.g. #"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="skipLeadingLines">Skip lines at start</Label>
+        <Input
+          id="skipLeadingLines"
+          type="number"
+          min={0}
+          value={value.skipLeadingLines || ""}
+          onChange={(e) => onChange({ ...value, skipLeadingLines: toLineCount(e.target.value) })}
+          placeholder="0"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="skipTrailingLines">Skip lines at end</Label>
+        <Input
+          id="skipTrailingLines"
+          type="number"
+          min={0}
+          value={value.skipTrailingLines || ""}
+          onChange={(e) => onChange({ ...value, skipTrailingLines: toLineCount(e.target.value) })}
+          placeholder="0"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="nullTokens">Null values</Label>
+        <Input
+          id="nullTokens"
+          value={nullTokens}
+          onChange={(e) => {
+            setNullTokens(e.target.value)
+            onChange({ ...value, nullTokens: toTokens(e.target.value) })
+          }}
+          placeholder="e.g. \N, NULL, -"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="shortRows">Rows with too few fields</Label>
+        <Select
+          value={value.shortRows}
+          onValueChange={(shortRows) => onChange({ ...value, shortRows: shortRows as ShortRowAction })}
+        >
+          <SelectTrigger id="shortRows">
+            <SelectValue placeholder="Select what to do" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="reject">Reject the row</SelectItem>
+            <SelectItem value="pad">Pad with nulls</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="longRows">Rows with too many fields</Label>
+        <Select
+          value={value.longRows}
+          onValueChange={(longRows) => onChange({ ...value, longRows: longRows as LongRowAction })}
+        >
+          <SelectTrigger id="longRows">
+            <SelectValue placeholder="Select what to do" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="reject">Reject the row</SelectItem>
+            <SelectItem value="truncate">Drop the extra fields</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center space-x-2 pt-8">
+        <Switch id="trim" checked={value.trim} onCheckedChange={(trim) => onChange({ ...value, trim })} />
+        <Label htmlFor="trim">Trim whitespace around values</Label>
+      </div>
+    </div>
+  )
+}
+
+interface RaggedRowsReportProps {
+  report: RaggedRowReport
+  dialect: CsvDialect
+}
+
+// Rows read for the preview whose number of fields differs from the first row's,
+// with the first few of each kind to look at before picking what to do with them
+export function RaggedRowsReport({ report, dialect }: RaggedRowsReportProps) {
+  const { fieldCount, rowsChecked, wholeFile, short, long } = report
+  if (short.count === 0 && long.count === 0) return null
+
+  const examples = [...short.examples, ...long.examples].sort((a, b) => a.line - b.line)
+  const describe = (count: number, comparison: string, action: string) =>
+    `${count} ${count === 1 ? "row has" : "rows have"} ${comparison} ${fieldCount} fields and ${action}.`
+
+  return (
+    <Alert>
+      <AlertCircle className="h-4 w-4" />
+      <AlertTitle>Rows with a different number of fields</AlertTitle>
+      <AlertDescription className="space-y-2">
+        {short.count > 0 && (
+          <p>
+            {describe(
+              short.count,
+              "fewer than",
+              dialect.shortRows === "pad" ? "will be padded with nulls" : "count as bad rows",
+            )}
+          </p>
+        )}
+        {long.count > 0 && (
+          <p>
+            {describe(
+              long.count,
+              "more than",
+              dialect.longRows === "truncate" ? "will have the extra fields dropped" : "count as bad rows",
+            )}
+          </p>
+        )}
+        {!wholeFile && (
+          <p>
+            These counts cover the first {rowsChecked.toLocaleString()} rows, those read for the preview and type
+            inference. Rows further into the file are only checked by the import.
+          </p>
+        )}
+        <div className="border rounded-md overflow-auto max-h-[200px]">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[80px]">Line</TableHead>
+                <TableHead className="w-[80px]">Fields</TableHead>
+                <TableHead>Text</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {examples.map((example) => (
+                <TableRow key={example.line}>
+                  <TableCell>{example.line}</TableCell>
+                  <TableCell>{example.fieldCount}</TableCell>
+                  <TableCell className="font-mono text-xs whitespace-pre">{example.raw.trimEnd()}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </AlertDescription>
+    </Alert>
+  )
+}
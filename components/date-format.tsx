@@ -0,0 +1,115 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CalendarClock } from "lucide-react"
+import { DATE_FORMAT_PRESETS, type DateParseFormat } from "@/lib/import/dates"
+
+interface DateFormatEditorProps {
+  id: string
+  type: string
+  value?: DateParseFormat
+  onChange: (value: DateParseFormat | undefined) => void
+  // Time zone of a DateTime column in ClickHouse
+  targetTimeZone: string
+  onTargetTimeZoneChange: (timeZone: string) => void
+}
+
+// Select values for leaving values as they are and for a format typed by hand
+const AS_WRITTEN = "__as_written__"
+const CUSTOM_FORMAT = "__custom__"
+
+const TIME_ZONES = Intl.supportedValuesOf("timeZone")
+
+export function DateFormatEditor({
+  id,
+  type,
+  value,
+  onChange,
+  targetTimeZone,
+  onTargetTimeZoneChange,
+}: DateFormatEditorProps) {
+  const isPreset = !value || DATE_FORMAT_PRESETS.some((preset) => preset.format === value.format)
+  const selected = !value ? AS_WRITTEN : isPreset ? value.format : CUSTOM_FORMAT
+
+  const handleFormatChange = (format: string) => {
+    if (format === AS_WRITTEN) {
+      onChange(undefined)
+    } else {
+      onChange({ format: format === CUSTOM_FORMAT ? "" : format, timeZone: value?.timeZone ?? "" })
+    }
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="link" size="sm" className="h-auto p-0 text-xs">
+          <CalendarClock className="mr-1 h-3 w-3" />
+          {value ? `Format ${value.format || "(empty)"}` : "Set date format"}
+          {targetTimeZone && `, stored in ${targetTimeZone}`}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[360px] space-y-4" align="start">
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-format`}>Format in the file</Label>
+          <Select value={selected} onValueChange={handleFormatChange}>
+            <SelectTrigger id={`${id}-format`}>
+              <SelectValue placeholder="Select format" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AS_WRITTEN}>As written (ClickHouse parses it)</SelectItem>
+              {DATE_FORMAT_PRESETS.map((preset) => (
+                <SelectItem key={preset.format} value={preset.format}>
+                  {preset.label}
+                </SelectItem>
+              ))}
+              <SelectItem value={CUSTOM_FORMAT}>Custom</SelectItem>
+            </SelectContent>
+          </Select>
+          {value && !isPreset && (
+            <Input
+              value={value.format}
+              onChange={(e) => onChange({ ...value, format: e.target.value })}
+              placeholder="e.g. DD/MM/YYYY HH:mm:ss.SSS Z"
+            />
+          )}
+        </div>
+
+        {value && (
+          <div className="space-y-2">
+            <Label htmlFor={`${id}-source-zone`}>Time zone of the file&apos;s values</Label>
+            <Input
+              id={`${id}-source-zone`}
+              list="time-zones"
+              value={value.timeZone}
+              onChange={(e) => onChange({ ...value, timeZone: e.target.value })}
+              placeholder="UTC"
+            />
+          </div>
+        )}
+
+        {type.startsWith("DateTime") && (
+          <div className="space-y-2">
+            <Label htmlFor={`${id}-target-zone`}>Column time zone</Label>
+            <Input
+              id={`${id}-target-zone`}
+              list="time-zones"
+              value={targetTimeZone}
+              onChange={(e) => onTargetTimeZoneChange(e.target.value)}
+              placeholder="Server default"
+            />
+          </div>
+        )}
+
+        <datalist id="time-zones">
+          {TIME_ZONES.map((timeZone) => (
+            <option key={timeZone} value={timeZone} />
+          ))}
+        </datalist>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,65 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { ErrorPolicy, RowErrorAction } from "@/lib/import/error-policy"
+
+interface ErrorPolicyEditorProps {
+  value: ErrorPolicy
+  onChange: (value: ErrorPolicy) => void
+}
+
+// Blank inputs mean no limit
+const toLimit = (text: string) => (text === "" ? undefined : Number(text))
+
+export function ErrorPolicyEditor({ value, onChange }: ErrorPolicyEditorProps) {
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="onError">When a row has a bad value</Label>
+        <Select
+          value={value.onError}
+          onValueChange={(onError) => onChange({ ...value, onError: onError as RowErrorAction })}
+        >
+          <SelectTrigger id="onError">
+            <SelectValue placeholder="Select error policy" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="abort">Abort the import</SelectItem>
+            <SelectItem value="skip">Skip the row</SelectItem>
+            <SelectItem value="default">Use the column default for bad values</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value.onError !== "abort" && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="maxErrors">Maximum bad rows</Label>
+            <Input
+              id="maxErrors"
+              type="number"
+              min={0}
+              value={value.maxErrors ?? ""}
+              onChange={(e) => onChange({ ...value, maxErrors: toLimit(e.target.value) })}
+              placeholder="No limit"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="maxErrorPercent">Maximum bad rows (%)</Label>
+            <Input
+              id="maxErrorPercent"
+              type="number"
+              min={0}
+              max={100}
+              value={value.maxErrorPercent ?? ""}
+              onChange={(e) => onChange({ ...value, maxErrorPercent: toLimit(e.target.value) })}
+              placeholder="No limit"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
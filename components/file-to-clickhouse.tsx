@@ -10,26 +10,155 @@ import { Switch } from "@/components/ui/switch"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { Progress } from "@/components/ui/progress"
-import { Loader2, AlertCircle, CheckCircle2, Upload, FileText } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Loader2, AlertCircle, CheckCircle2, Upload, FileText, Plus, Trash2 } from "lucide-react"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { TableOptionsEditor } from "@/components/table-options"
+import { CreateTablePreview } from "@/components/create-table-preview"
+import { ColumnMappingEditor } from "@/components/column-mapping"
+import { ErrorPolicyEditor } from "@/components/error-policy"
+import { ColumnTransformEditor, type ColumnTransformValue } from "@/components/column-transforms"
+import { DateFormatEditor } from "@/components/date-format"
+import { CsvDialectEditor, RaggedRowsReport } from "@/components/csv-dialect"
+import { HeaderRulesEditor } from "@/components/header-rules"
+import {
+  DEFAULT_TABLE_OPTIONS,
+  renameTableOptionsColumn,
+  wrapColumnType,
+  type TableOptions,
+  type WriteMode,
+} from "@/lib/import/ddl"
+import type { ColumnMapping, MappedColumn } from "@/lib/import/mapping"
+import { createColumnReader, type TransformStep } from "@/lib/import/transform"
+import { withTimeZone, type DateParseFormat } from "@/lib/import/dates"
+import type { SchemaIssue } from "@/lib/import/schema-check"
+import type { ColumnInference } from "@/lib/import/infer"
+import type { ErrorPolicy } from "@/lib/import/error-policy"
+import { AUTO_ENCODING, SUPPORTED_ENCODINGS, type SourceEncoding } from "@/lib/import/encoding"
+import type { Compression } from "@/lib/import/compression"
+import { DEFAULT_HEADER_RULES, type HeaderRules } from "@/lib/import/headers"
+import {
+  AUTO_DELIMITER,
+  DEFAULT_CSV_DIALECT,
+  DELIMITER_CHOICES,
+  type CsvDialect,
+  type RaggedRowReport,
+} from "@/lib/import/csv-dialect"
+import {
+  FILE_FORMAT_LABELS,
+  FILE_FORMATS,
+  formatFromFileName,
+  isTextFormat,
+  type FileFormat,
+  type NestedMode,
+} from "@/lib/import/formats"
+
+// Base types offered in the type editor; an inferred type outside this list is added to it
+const COLUMN_TYPES = [
+  "String",
+  "UInt8",
+  "UInt16",
+  "UInt32",
+  "UInt64",
+  "Int8",
+  "Int16",
+  "Int32",
+  "Int64",
+  "Float32",
+  "Float64",
+  "Bool",
+  "UUID",
+  "Date",
+  "DateTime",
+  "DateTime64(3)",
+]
 
 interface CSVColumn {
   name: string
   type: string
+  nullable: boolean
+  lowCardinality: boolean
   selected: boolean
+  inference?: ColumnInference
+  // File column the values come from, or how a computed column derives them
+  source: MappedColumn["source"]
+  transforms: TransformStep[]
+  // How the file writes a Date or DateTime column, and the time zone of a DateTime column
+  dateFormat?: DateParseFormat
+  timeZone: string
+}
+
+const formatPercent = (ratio: number) => `${Math.round(ratio * 1000) / 10}%`
+
+const EMPTY_IMPORT_STATS = {
+  rowsProcessed: 0,
+  batchesDone: 0,
+  rowsRejected: 0,
+  rowsDefaulted: 0,
+  deduplicatedBatches: [] as number[],
 }
 
+// Batch numbers listed before the rest are summarized as a count
+const MAX_LISTED_BATCHES = 20
+
+const formatBatchList = (batches: number[]) =>
+  batches.length > MAX_LISTED_BATCHES
+    ? `${batches.slice(0, MAX_LISTED_BATCHES).join(", ")} and ${batches.length - MAX_LISTED_BATCHES} more`
+    : batches.join(", ")
+
+// Readable name of an encoding the server resolved, with how it came about
+const describeEncoding = ({ encoding, bomLength, detected }: SourceEncoding) => {
+  const label = SUPPORTED_ENCODINGS.find((option) => option.encoding === encoding)?.label ?? encoding
+  const notes = [detected ? "detected" : "selected", ...(bomLength > 0 ? ["byte order mark removed"] : [])]
+  return `${label} (${notes.join(", ")})`
+}
+
+// File types offered by the file picker, plain and compressed
+const ACCEPTED_FILES = ".csv,.tsv,.txt,.json,.jsonl,.ndjson,.parquet,.xlsx,.gz,.zst,.bz2,.xz,.zip"
+
+// Select value for a delimiter typed in by hand
+const CUSTOM_DELIMITER = "custom"
+
+const describeDelimiter = (delimiter: string) =>
+  DELIMITER_CHOICES.find((option) => option.delimiter === delimiter)?.label ?? `"${delimiter}"`
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`
+
 interface PreviewData {
   columns: string[]
   rows: any[][]
+  // Null for Parquet files and workbooks, which are binary
+  encoding: SourceEncoding | null
+  // Delimiter the file was read with, detected unless one was picked
+  delimiter: string
+  // Rows of a CSV file with too few or too many fields among those scanned
+  raggedRows?: RaggedRowReport
+  // How the upload is compressed, with the members of a zip archive
+  compression: Compression & { members?: { name: string; size: number }[] }
+  // Sheets of a workbook and the one read
+  sheets?: string[]
+  sheet?: string
 }
 
 export function FileToClickHouse() {
   // File state
   const [file, setFile] = useState<File | null>(null)
-  const [delimiter, setDelimiter] = useState(",")
+  const [format, setFormat] = useState<FileFormat>("csv")
+  const [nested, setNested] = useState<NestedMode>("flatten")
+  const [delimiter, setDelimiter] = useState(AUTO_DELIMITER)
   const [hasHeader, setHasHeader] = useState(true)
+  const [dialect, setDialect] = useState<CsvDialect>(DEFAULT_CSV_DIALECT)
+  const [headerRules, setHeaderRules] = useState<HeaderRules>(DEFAULT_HEADER_RULES)
+  const [encoding, setEncoding] = useState(AUTO_ENCODING)
+  // Zip archive member to load, the server's pick when empty
+  const [member, setMember] = useState("")
+  // Workbook sheet to load, the first when empty, with an optional cell range and header row
+  const [sheet, setSheet] = useState("")
+  const [range, setRange] = useState("")
+  const [headerRow, setHeaderRow] = useState("")
+  const [inferenceRows, setInferenceRows] = useState("10000")
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   // Connection state
@@ -40,6 +169,14 @@ export function FileToClickHouse() {
   const [jwtToken, setJwtToken] = useState("")
   const [useSSL, setUseSSL] = useState(false)
   const [tableName, setTableName] = useState("")
+  const [tableOptions, setTableOptions] = useState<TableOptions>(DEFAULT_TABLE_OPTIONS)
+  const [writeMode, setWriteMode] = useState<WriteMode>("append")
+  const [staging, setStaging] = useState(false)
+  // CREATE TABLE statement edited by hand, empty to run the one built from the columns and options
+  const [createTableQuery, setCreateTableQuery] = useState("")
+  const [useMapping, setUseMapping] = useState(false)
+  const [mapping, setMapping] = useState<ColumnMapping[]>([])
+  const [errorPolicy, setErrorPolicy] = useState<ErrorPolicy>({ onError: "abort" })
 
   // UI state
   const [status, setStatus] = useState<"idle" | "parsing" | "previewing" | "importing" | "success" | "error">("idle")
@@ -47,12 +184,27 @@ export function FileToClickHouse() {
   const [columns, setColumns] = useState<CSVColumn[]>([])
   const [previewData, setPreviewData] = useState<PreviewData | null>(null)
   const [progress, setProgress] = useState(0)
+  const [importStats, setImportStats] = useState(EMPTY_IMPORT_STATS)
+  const [jobId, setJobId] = useState("")
+  const [canResume, setCanResume] = useState(false)
+  const [schemaIssues, setSchemaIssues] = useState<SchemaIssue[]>([])
+  const [deduplicationWarning, setDeduplicationWarning] = useState("")
   const [result, setResult] = useState<{ recordCount: number; tableName: string } | null>(null)
 
+  // Truncating and replacing load the whole table again, which can go through a staging table
+  const isFullRefresh = writeMode === "truncate" || writeMode === "replace"
+
+  // A delimiter outside the choices is typed in by hand
+  const isPresetDelimiter =
+    delimiter === AUTO_DELIMITER || DELIMITER_CHOICES.some((option) => option.delimiter === delimiter)
+
   // Handle file selection
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
       setFile(e.target.files[0])
+      setFormat(formatFromFileName(e.target.files[0].name))
+      setMember("")
+      setSheet("")
       setPreviewData(null)
       setColumns([])
       setErrorMessage("")
@@ -72,11 +224,23 @@ export function FileToClickHouse() {
       setErrorMessage("")
       setColumns([])
       setPreviewData(null)
+      setTableOptions(DEFAULT_TABLE_OPTIONS)
+      setCreateTableQuery("")
 
       const formData = new FormData()
       formData.append("file", file)
+      formData.append("format", format)
       formData.append("delimiter", delimiter)
       formData.append("hasHeader", hasHeader.toString())
+      formData.append("dialect", JSON.stringify(dialect))
+      formData.append("headerRules", JSON.stringify(headerRules))
+      formData.append("nested", nested)
+      formData.append("encoding", encoding)
+      formData.append("member", member)
+      formData.append("sheet", sheet)
+      formData.append("range", range)
+      formData.append("headerRow", headerRow)
+      formData.append("inferenceRows", inferenceRows)
 
       const response = await fetch("/api/parse/csv", {
         method: "POST",
@@ -85,17 +249,23 @@ export function FileToClickHouse() {
 
       if (!response.ok) {
         const errorData = await response.json()
-        throw new Error(errorData.error || "Failed to parse CSV file")
+        throw new Error(errorData.error || "Failed to parse file")
       }
 
       const data = await response.json()
 
-      // Infer column types and create column objects
+      // Create column objects from the types the server inferred
       setColumns(
-        data.columns.map((col: string, index: number) => ({
-          name: col,
-          type: inferColumnType(data.rows, index),
+        data.inference.map((inference: ColumnInference) => ({
+          name: inference.name,
+          type: inference.type,
+          nullable: inference.nullable,
+          lowCardinality: false,
           selected: true,
+          inference,
+          source: { kind: "column", column: inference.name },
+          transforms: [],
+          timeZone: "",
         })),
       )
 
@@ -107,48 +277,30 @@ export function FileToClickHouse() {
     }
   }
 
-  // Infer column type based on values
-  const inferColumnType = (rows: any[][], colIndex: number): string => {
-    // Check first few non-empty values to determine type
-    const sampleSize = Math.min(10, rows.length)
-    const samples = []
-
-    for (let i = 0; i < rows.length && samples.length < sampleSize; i++) {
-      if (rows[i][colIndex] !== null && rows[i][colIndex] !== undefined && rows[i][colIndex] !== "") {
-        samples.push(rows[i][colIndex])
-      }
-    }
-
-    if (samples.length === 0) return "String"
-
-    // Check if all samples are numbers
-    const allNumbers = samples.every((sample) => !isNaN(Number(sample)))
-    if (allNumbers) {
-      // Check if all are integers
-      const allIntegers = samples.every((sample) => Number.isInteger(Number(sample)))
-      if (allIntegers) {
-        // Determine integer size
-        const maxVal = Math.max(...samples.map((s) => Number(s)))
-        if (maxVal <= 255) return "UInt8"
-        if (maxVal <= 65535) return "UInt16"
-        return "UInt32"
-      }
-      return "Float64"
+  // Handle column type change
+  // Date formats and time zones only apply to the date types, so they are dropped for others
+  const handleColumnTypeChange = (index: number, type: string) => {
+    const updatedColumns = [...columns]
+    const column = updatedColumns[index]
+    updatedColumns[index] = {
+      ...column,
+      type,
+      dateFormat: type.startsWith("Date") ? column.dateFormat : undefined,
+      timeZone: type.startsWith("DateTime") ? column.timeZone : "",
     }
+    setColumns(updatedColumns)
+  }
 
-    // Check if all samples are dates
-    const dateRegex = /^\d{4}-\d{2}-\d{2}$/
-    const allDates = samples.every((sample) => dateRegex.test(String(sample)))
-    if (allDates) return "Date"
-
-    // Default to String
-    return "String"
+  const handleDateFormatChange = (index: number, change: Partial<Pick<CSVColumn, "dateFormat" | "timeZone">>) => {
+    const updatedColumns = [...columns]
+    updatedColumns[index] = { ...updatedColumns[index], ...change }
+    setColumns(updatedColumns)
   }
 
-  // Handle column type change
-  const handleColumnTypeChange = (index: number, type: string) => {
+  // Toggle the Nullable or LowCardinality wrapper of a column
+  const toggleColumnWrapper = (index: number, wrapper: "nullable" | "lowCardinality") => {
     const updatedColumns = [...columns]
-    updatedColumns[index].type = type
+    updatedColumns[index][wrapper] = !updatedColumns[index][wrapper]
     setColumns(updatedColumns)
   }
 
@@ -159,12 +311,155 @@ export function FileToClickHouse() {
     setColumns(updatedColumns)
   }
 
+  // Update the source and transformation steps of a column
+  const handleTransformChange = (index: number, value: ColumnTransformValue) => {
+    const updatedColumns = [...columns]
+    updatedColumns[index] = { ...updatedColumns[index], ...value }
+    setColumns(updatedColumns)
+  }
+
+  // The table options follow the rename, so keys and the partition expression keep naming the column
+  const handleColumnNameChange = (index: number, name: string) => {
+    const updatedColumns = [...columns]
+    updatedColumns[index] = { ...updatedColumns[index], name }
+    setColumns(updatedColumns)
+    setTableOptions(renameTableOptionsColumn(tableOptions, columns[index].name, name))
+  }
+
+  // Computed columns start empty and get their value from the transformation editor
+  const addComputedColumn = () => {
+    const count = columns.filter((col) => col.source.kind !== "column").length
+    setColumns([
+      ...columns,
+      {
+        name: `computed_${count + 1}`,
+        type: "String",
+        nullable: false,
+        lowCardinality: false,
+        selected: true,
+        source: { kind: "template", template: "" },
+        transforms: [],
+        timeZone: "",
+      },
+    ])
+  }
+
+  const removeColumn = (index: number) => {
+    setColumns(columns.filter((_, i) => i !== index))
+  }
+
+  // Add one String column per part of a file column split on a separator, right after it
+  const handleSplitColumn = (index: number, separator: string, parts: number) => {
+    const column = columns[index]
+    // A renamed file column is still read by its name in the file
+    const fileColumn = column.source.kind === "column" ? column.source.column : column.name
+    const splitColumns: CSVColumn[] = Array.from({ length: parts }, (_, part) => ({
+      name: `${column.name}_${part + 1}`,
+      type: "String",
+      nullable: false,
+      lowCardinality: false,
+      selected: true,
+      source: { kind: "split", column: fileColumn, separator, index: part },
+      transforms: [],
+      timeZone: "",
+    }))
+    setColumns([...columns.slice(0, index + 1), ...splitColumns, ...columns.slice(index + 1)])
+  }
+
   // Select/deselect all columns
   const toggleAllColumns = (selected: boolean) => {
     setColumns(columns.map((col) => ({ ...col, selected })))
   }
 
+  // Mapping loads into an existing table, so only appending or truncating applies
+  const handleUseMappingChange = (checked: boolean) => {
+    setUseMapping(checked)
+    setMapping([])
+    if (checked && writeMode !== "append" && writeMode !== "truncate") {
+      setWriteMode("append")
+    }
+  }
+
   // Handle import to ClickHouse
+  // Track the progress of an import job with EventSource until it finishes
+  const followImportJob = (jobId: string) => {
+    const eventSourceUrl = `/api/import/file-to-clickhouse?${new URLSearchParams({ jobId })}`
+
+    const eventSource = new EventSource(eventSourceUrl)
+
+    eventSource.onmessage = (event) => {
+      const data = JSON.parse(event.data)
+
+      if (data.issues) {
+        setSchemaIssues(data.issues)
+      }
+      setDeduplicationWarning(data.deduplicationWarning ?? "")
+
+      setImportStats({
+        rowsProcessed: data.rowsProcessed,
+        batchesDone: data.batchesDone,
+        rowsRejected: data.rowsRejected,
+        rowsDefaulted: data.rowsDefaulted,
+        deduplicatedBatches: data.deduplicatedBatches,
+      })
+
+      if (data.error) {
+        eventSource.close()
+        setStatus("error")
+        setErrorMessage(data.error)
+        setCanResume(!!data.resumable)
+        return
+      }
+
+      setProgress(data.progress)
+
+      if (data.complete) {
+        setResult({
+          recordCount: data.recordCount,
+          tableName: data.tableName,
+        })
+        setStatus("success")
+        eventSource.close()
+      }
+    }
+
+    eventSource.onerror = () => {
+      eventSource.close()
+      setStatus("error")
+      setErrorMessage("Lost connection to the import progress stream. Check server logs for details.")
+      // The server may have restarted mid-import, in which case its checkpoint is still on disk
+      setCanResume(true)
+    }
+  }
+
+  // Continue a failed import from its last committed batch
+  const handleResumeImport = async () => {
+    try {
+      setStatus("importing")
+      setErrorMessage("")
+      setCanResume(false)
+
+      const response = await fetch("/api/import/file-to-clickhouse/resume", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ jobId, host, port, database, username, jwtToken, useSSL }),
+      })
+
+      // 409 means the import never stopped, so just follow it again
+      if (!response.ok && response.status !== 409) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || "Failed to resume the import")
+      }
+
+      followImportJob(jobId)
+    } catch (error) {
+      setStatus("error")
+      setErrorMessage(error instanceof Error ? error.message : "An unknown error occurred")
+    }
+  }
+
   const handleImportToClickHouse = async () => {
     if (!file || !tableName) {
       setErrorMessage("Please select a file and provide a table name")
@@ -175,18 +470,42 @@ export function FileToClickHouse() {
       setStatus("importing")
       setErrorMessage("")
       setProgress(0)
+      setImportStats(EMPTY_IMPORT_STATS)
+      setJobId("")
+      setCanResume(false)
+      setSchemaIssues([])
+      setDeduplicationWarning("")
       setResult(null)
 
       const selectedColumns = columns.filter((col) => col.selected)
 
-      if (selectedColumns.length === 0) {
+      if (!useMapping && selectedColumns.length === 0) {
         throw new Error("Please select at least one column to import")
       }
 
+      if (useMapping && mapping.length === 0) {
+        throw new Error("Please fetch the table schema and map its columns")
+      }
+
+      const names = selectedColumns.map((col) => col.name.trim())
+      if (!useMapping && names.some((name, i) => name === "" || names.indexOf(name) !== i)) {
+        throw new Error("Column names must not be empty or used twice")
+      }
+
       const formData = new FormData()
       formData.append("file", file)
-      formData.append("delimiter", delimiter)
+      formData.append("format", format)
+      // Import with the delimiter and encoding the preview was read with
+      formData.append("delimiter", previewData?.delimiter ?? delimiter)
       formData.append("hasHeader", hasHeader.toString())
+      formData.append("dialect", JSON.stringify(dialect))
+      formData.append("headerRules", JSON.stringify(headerRules))
+      formData.append("nested", nested)
+      formData.append("encoding", previewData?.encoding?.encoding ?? encoding)
+      formData.append("member", previewData?.compression.member ?? member)
+      formData.append("sheet", previewData?.sheet ?? sheet)
+      formData.append("range", range)
+      formData.append("headerRow", headerRow)
       formData.append("host", host)
       formData.append("port", port)
       formData.append("database", database)
@@ -194,39 +513,33 @@ export function FileToClickHouse() {
       formData.append("jwtToken", jwtToken)
       formData.append("useSSL", useSSL.toString())
       formData.append("tableName", tableName)
-      formData.append("columns", JSON.stringify(selectedColumns))
-
-      // Set up progress tracking with EventSource
-      const eventSourceUrl = `/api/import/file-to-clickhouse?${new URLSearchParams({
-        filename: file.name,
-        tableName,
-      })}`
-
-      const eventSource = new EventSource(eventSourceUrl)
-
-      eventSource.onmessage = (event) => {
-        const data = JSON.parse(event.data)
-
-        if (data.progress) {
-          setProgress(data.progress)
-        }
+      formData.append("writeMode", writeMode)
+      formData.append("staging", (staging && isFullRefresh).toString())
+      formData.append("onError", errorPolicy.onError)
+      formData.append("maxErrors", errorPolicy.maxErrors?.toString() ?? "")
+      formData.append("maxErrorPercent", errorPolicy.maxErrorPercent?.toString() ?? "")
 
-        if (data.complete) {
-          setResult({
-            recordCount: data.recordCount,
-            tableName: data.tableName,
-          })
-          setStatus("success")
-          eventSource.close()
+      if (useMapping) {
+        formData.append("mapping", JSON.stringify(mapping))
+      } else {
+        formData.append(
+          "columns",
+          JSON.stringify(
+            selectedColumns.map((col) => ({
+              name: col.name,
+              type: wrapColumnType(withTimeZone(col.type, col.timeZone), col),
+              source: col.source,
+              transforms: col.transforms,
+              dateFormat: col.dateFormat,
+            })),
+          ),
+        )
+        formData.append("tableOptions", JSON.stringify(tableOptions))
+        if (createTableQuery) {
+          formData.append("createTableQuery", createTableQuery)
         }
       }
 
-      eventSource.onerror = () => {
-        eventSource.close()
-        setStatus("error")
-        setErrorMessage("Error during import. Check server logs for details.")
-      }
-
       // Start the import process
       const response = await fetch("/api/import/file-to-clickhouse", {
         method: "POST",
@@ -237,35 +550,249 @@ export function FileToClickHouse() {
         const errorData = await response.json()
         throw new Error(errorData.error || "Failed to import data to ClickHouse")
       }
+
+      const { jobId } = await response.json()
+      setJobId(jobId)
+      followImportJob(jobId)
     } catch (error) {
       setStatus("error")
       setErrorMessage(error instanceof Error ? error.message : "An unknown error occurred")
     }
   }
 
+  // A value that can't be converted shows the reason in its cell instead of failing the whole preview
+  const readPreviewCell = (read: (record: string[]) => string, row: string[]) => {
+    try {
+      return read(row)
+    } catch (error) {
+      return `(invalid: ${error instanceof Error ? error.message : "unknown error"})`
+    }
+  }
+
+  // The preview shows the selected columns as they will be loaded, with their transformations applied.
+  // Mapped imports load the file columns as they are.
+  const buildPreview = (data: PreviewData) => {
+    if (useMapping) {
+      return { columns: data.columns, rows: data.rows, error: "" }
+    }
+
+    const selectedColumns = columns.filter((col) => col.selected)
+    try {
+      const readers = selectedColumns.map((col) => createColumnReader(col, data.columns))
+      return {
+        columns: selectedColumns.map((col) => col.name),
+        rows: data.rows.map((row) => readers.map((read) => readPreviewCell(read, row))),
+        error: "",
+      }
+    } catch (error) {
+      return {
+        columns: data.columns,
+        rows: data.rows,
+        error: error instanceof Error ? error.message : "An unknown error occurred",
+      }
+    }
+  }
+  const preview = previewData && buildPreview(previewData)
+
   return (
     <div className="space-y-6">
       <Card>
         <CardHeader>
-          <CardTitle>CSV File Selection</CardTitle>
-          <CardDescription>Select a CSV file to import</CardDescription>
+          <CardTitle>File Selection</CardTitle>
+          <CardDescription>
+            Select a CSV, JSON, Parquet or Excel (.xlsx) file to import. CSV, JSON and Parquet files can also be
+            compressed with gzip, zstd, bzip2, xz or zip.
+          </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="grid w-full max-w-sm items-center gap-1.5">
-            <Label htmlFor="file">CSV File</Label>
-            <Input id="file" type="file" accept=".csv" ref={fileInputRef} onChange={handleFileChange} />
+            <Label htmlFor="file">File</Label>
+            <Input id="file" type="file" accept={ACCEPTED_FILES} ref={fileInputRef} onChange={handleFileChange} />
           </div>
 
-          <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="format">Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as FileFormat)}>
+              <SelectTrigger id="format">
+                <SelectValue placeholder="Select format" />
+              </SelectTrigger>
+              <SelectContent>
+                {FILE_FORMATS.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {FILE_FORMAT_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {format === "csv" ? (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="delimiter">Delimiter</Label>
+                  <Select
+                    value={isPresetDelimiter ? delimiter : CUSTOM_DELIMITER}
+                    onValueChange={(value) => setDelimiter(value === CUSTOM_DELIMITER ? "" : value)}
+                  >
+                    <SelectTrigger id="delimiter">
+                      <SelectValue placeholder="Select delimiter" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={AUTO_DELIMITER}>Detect automatically</SelectItem>
+                      {DELIMITER_CHOICES.map((option) => (
+                        <SelectItem key={option.label} value={option.delimiter}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                      <SelectItem value={CUSTOM_DELIMITER}>Other</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {!isPresetDelimiter && (
+                    <Input
+                      id="customDelimiter"
+                      value={delimiter}
+                      maxLength={1}
+                      onChange={(e) => setDelimiter(e.target.value)}
+                      placeholder="Type the delimiter"
+                    />
+                  )}
+                </div>
+                <div className="flex items-center space-x-2 pt-8">
+                  <Switch id="hasHeader" checked={hasHeader} onCheckedChange={setHasHeader} />
+                  <Label htmlFor="hasHeader">File has header row</Label>
+                </div>
+              </div>
+              <CsvDialectEditor value={dialect} onChange={setDialect} />
+            </div>
+          ) : format === "json" ? (
             <div className="space-y-2">
-              <Label htmlFor="delimiter">Delimiter</Label>
-              <Input id="delimiter" value={delimiter} onChange={(e) => setDelimiter(e.target.value)} placeholder="," />
+              <Label htmlFor="nested">Nested objects</Label>
+              <Select value={nested} onValueChange={(value) => setNested(value as NestedMode)}>
+                <SelectTrigger id="nested">
+                  <SelectValue placeholder="Select how to load nested objects" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="flatten">Flatten into dotted columns (address.city)</SelectItem>
+                  <SelectItem value="keep">Keep as one column, loaded as JSON, Map or Tuple</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
-            <div className="flex items-center space-x-2 pt-8">
-              <Switch id="hasHeader" checked={hasHeader} onCheckedChange={setHasHeader} />
-              <Label htmlFor="hasHeader">File has header row</Label>
+          ) : format === "xlsx" ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="range">Cell range</Label>
+                <Input
+                  id="range"
+                  value={range}
+                  onChange={(e) => setRange(e.target.value)}
+                  placeholder="Whole sheet, or e.g. B2:F100"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="headerRow">Header row</Label>
+                <Input
+                  id="headerRow"
+                  type="number"
+                  min={1}
+                  value={headerRow}
+                  onChange={(e) => setHeaderRow(e.target.value)}
+                  placeholder="First row of the range"
+                  disabled={!hasHeader}
+                />
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch id="hasHeader" checked={hasHeader} onCheckedChange={setHasHeader} />
+                <Label htmlFor="hasHeader">Sheet has header row</Label>
+              </div>
             </div>
-          </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Column names and types are taken from the Parquet schema.
+            </p>
+          )}
+
+          {(format === "csv" || format === "xlsx") && hasHeader && (
+            <HeaderRulesEditor value={headerRules} onChange={setHeaderRules} />
+          )}
+
+          {isTextFormat(format) && (
+            <div className="space-y-2">
+              <Label htmlFor="encoding">Encoding</Label>
+              <Select value={encoding} onValueChange={setEncoding}>
+                <SelectTrigger id="encoding">
+                  <SelectValue placeholder="Select encoding" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTO_ENCODING}>Detect automatically</SelectItem>
+                  {SUPPORTED_ENCODINGS.map((option) => (
+                    <SelectItem key={option.encoding} value={option.encoding}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {previewData?.compression.members && previewData.compression.members.length > 1 && (
+            <div className="space-y-2">
+              <Label htmlFor="member">File in the archive</Label>
+              <Select value={member || previewData.compression.member} onValueChange={setMember}>
+                <SelectTrigger id="member">
+                  <SelectValue placeholder="Select file" />
+                </SelectTrigger>
+                <SelectContent>
+                  {previewData.compression.members.map((option) => (
+                    <SelectItem key={option.name} value={option.name}>
+                      {option.name} ({formatSize(option.size)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {member && member !== previewData.compression.member && (
+                <p className="text-sm text-muted-foreground">Parse again to load {member}</p>
+              )}
+            </div>
+          )}
+
+          {previewData?.sheets && previewData.sheets.length > 1 && (
+            <div className="space-y-2">
+              <Label htmlFor="sheet">Sheet</Label>
+              <Select value={sheet || previewData.sheet} onValueChange={setSheet}>
+                <SelectTrigger id="sheet">
+                  <SelectValue placeholder="Select sheet" />
+                </SelectTrigger>
+                <SelectContent>
+                  {previewData.sheets.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {sheet && sheet !== previewData.sheet && (
+                <p className="text-sm text-muted-foreground">Parse again to load {sheet}</p>
+              )}
+            </div>
+          )}
+
+          {format !== "parquet" && (
+            <div className="space-y-2">
+              <Label htmlFor="inferenceRows">Rows scanned to infer column types</Label>
+              <Select value={inferenceRows} onValueChange={setInferenceRows}>
+                <SelectTrigger id="inferenceRows">
+                  <SelectValue placeholder="Select sample size" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="1000">First 1,000 rows</SelectItem>
+                  <SelectItem value="10000">First 10,000 rows</SelectItem>
+                  <SelectItem value="100000">First 100,000 rows</SelectItem>
+                  <SelectItem value="all">Entire file</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
         </CardContent>
         <CardFooter>
           <Button
@@ -281,7 +808,7 @@ export function FileToClickHouse() {
             ) : (
               <>
                 <FileText className="mr-2 h-4 w-4" />
-                Parse CSV
+                Parse File
               </>
             )}
           </Button>
@@ -291,7 +818,7 @@ export function FileToClickHouse() {
       {columns.length > 0 && (
         <Card>
           <CardHeader>
-            <CardTitle>CSV Schema</CardTitle>
+            <CardTitle>File Schema</CardTitle>
             <CardDescription>Configure columns for import</CardDescription>
           </CardHeader>
           <CardContent>
@@ -299,6 +826,10 @@ export function FileToClickHouse() {
               <Button variant="outline" size="sm" onClick={() => toggleAllColumns(true)}>
                 Select All
               </Button>
+              <Button variant="outline" size="sm" onClick={addComputedColumn}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Computed Column
+              </Button>
               <Button variant="outline" size="sm" onClick={() => toggleAllColumns(false)}>
                 Deselect All
               </Button>
@@ -311,6 +842,9 @@ export function FileToClickHouse() {
                     <TableHead className="w-[50px]">Select</TableHead>
                     <TableHead>Column Name</TableHead>
                     <TableHead>Data Type</TableHead>
+                    <TableHead className="w-[100px]">Nullable</TableHead>
+                    <TableHead className="w-[130px]">LowCardinality</TableHead>
+                    <TableHead className="w-[140px]">Transform</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -324,9 +858,22 @@ export function FileToClickHouse() {
                         />
                       </TableCell>
                       <TableCell>
-                        <Label htmlFor={`column-${index}`} className="cursor-pointer">
-                          {column.name}
-                        </Label>
+                        {/* File columns can be renamed too, and are still read by their name in the file */}
+                        <div className="flex items-center gap-2">
+                          <Input
+                            value={column.name}
+                            onChange={(e) => handleColumnNameChange(index, e.target.value)}
+                            aria-label="Column name"
+                          />
+                          {column.source.kind !== "column" && (
+                            <Button variant="ghost" size="icon" onClick={() => removeColumn(index)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                        {column.source.kind === "column" && column.source.column !== column.name && (
+                          <p className="text-xs text-muted-foreground">From {column.source.column}</p>
+                        )}
                       </TableCell>
                       <TableCell>
                         <Select value={column.type} onValueChange={(value) => handleColumnTypeChange(index, value)}>
@@ -334,21 +881,63 @@ export function FileToClickHouse() {
                             <SelectValue placeholder="Select type" />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="String">String</SelectItem>
-                            <SelectItem value="UInt8">UInt8</SelectItem>
-                            <SelectItem value="UInt16">UInt16</SelectItem>
-                            <SelectItem value="UInt32">UInt32</SelectItem>
-                            <SelectItem value="UInt64">UInt64</SelectItem>
-                            <SelectItem value="Int8">Int8</SelectItem>
-                            <SelectItem value="Int16">Int16</SelectItem>
-                            <SelectItem value="Int32">Int32</SelectItem>
-                            <SelectItem value="Int64">Int64</SelectItem>
-                            <SelectItem value="Float32">Float32</SelectItem>
-                            <SelectItem value="Float64">Float64</SelectItem>
-                            <SelectItem value="Date">Date</SelectItem>
-                            <SelectItem value="DateTime">DateTime</SelectItem>
+                            {Array.from(
+                              new Set([
+                                ...COLUMN_TYPES,
+                                column.inference?.type ?? "String",
+                                ...(column.inference?.nestedTypes ?? []),
+                              ]),
+                            ).map((type) => (
+                              <SelectItem key={type} value={type}>
+                                {type}
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
+                        {column.type.startsWith("Date") && (
+                          <DateFormatEditor
+                            id={`column-${index}-date`}
+                            type={column.type}
+                            value={column.dateFormat}
+                            onChange={(dateFormat) => handleDateFormatChange(index, { dateFormat })}
+                            targetTimeZone={column.timeZone}
+                            onTargetTimeZoneChange={(timeZone) => handleDateFormatChange(index, { timeZone })}
+                          />
+                        )}
+                        {column.inference && (
+                          <p className="mt-1 text-xs text-muted-foreground">
+                            {formatPercent(column.inference.confidence)} of {column.inference.rowsScanned} rows fit{" "}
+                            {column.inference.type}, {formatPercent(column.inference.nullRatio)} empty
+                            {column.inference.violations.length > 0 &&
+                              ` (${column.inference.violationCount} breaking, e.g. ${column.inference.violations.join(", ")})`}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={column.nullable}
+                          onCheckedChange={() => toggleColumnWrapper(index, "nullable")}
+                          aria-label={`${column.name} is Nullable`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={column.lowCardinality}
+                          onCheckedChange={() => toggleColumnWrapper(index, "lowCardinality")}
+                          aria-label={`${column.name} is LowCardinality`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <ColumnTransformEditor
+                          value={{ source: column.source, transforms: column.transforms }}
+                          sourceColumns={previewData?.columns ?? []}
+                          onChange={(value) => handleTransformChange(index, value)}
+                          onSplit={
+                            column.source.kind === "column"
+                              ? (separator, parts) => handleSplitColumn(index, separator, parts)
+                              : undefined
+                          }
+                        />
                       </TableCell>
                     </TableRow>
                   ))}
@@ -359,24 +948,78 @@ export function FileToClickHouse() {
         </Card>
       )}
 
-      {previewData && (
+      {columns.length > 0 && !useMapping && (
+        <TableOptionsEditor
+          columnNames={columns.filter((col) => col.selected).map((col) => col.name)}
+          value={tableOptions}
+          onChange={setTableOptions}
+        />
+      )}
+
+      {columns.length > 0 && !useMapping && (
+        <CreateTablePreview
+          host={host}
+          port={port}
+          database={database}
+          username={username}
+          jwtToken={jwtToken}
+          useSSL={useSSL}
+          tableName={tableName}
+          columns={columns
+            .filter((col) => col.selected)
+            .map((col) => ({ name: col.name, type: wrapColumnType(withTimeZone(col.type, col.timeZone), col) }))}
+          tableOptions={tableOptions}
+          writeMode={writeMode}
+          value={createTableQuery}
+          onChange={setCreateTableQuery}
+        />
+      )}
+
+      {preview && (
         <Card>
           <CardHeader>
-            <CardTitle>Data Preview</CardTitle>
-            <CardDescription>Showing first 100 rows</CardDescription>
+            <div className="flex items-center justify-between">
+              <CardTitle>Data Preview</CardTitle>
+              {previewData && (
+                <div className="flex gap-2">
+                  {previewData.compression.format !== "none" && (
+                    <Badge variant="outline">
+                      {previewData.compression.format}
+                      {previewData.compression.member && `: ${previewData.compression.member}`}
+                    </Badge>
+                  )}
+                  {format === "csv" && (
+                    <Badge variant="outline">Delimiter: {describeDelimiter(previewData.delimiter)}</Badge>
+                  )}
+                  {previewData.sheet && <Badge variant="outline">Sheet: {previewData.sheet}</Badge>}
+                  {previewData.encoding && (
+                    <Badge variant="outline">Encoding: {describeEncoding(previewData.encoding)}</Badge>
+                  )}
+                </div>
+              )}
+            </div>
+            <CardDescription>Showing first 100 rows as they will be loaded</CardDescription>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-4">
+            {preview.error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Transformation Error</AlertTitle>
+                <AlertDescription>{preview.error}</AlertDescription>
+              </Alert>
+            )}
+            {previewData?.raggedRows && <RaggedRowsReport report={previewData.raggedRows} dialect={dialect} />}
             <div className="border rounded-md overflow-auto max-h-[400px]">
               <Table>
                 <TableHeader>
                   <TableRow>
-                    {previewData.columns.map((column, index) => (
+                    {preview.columns.map((column, index) => (
                       <TableHead key={index}>{column}</TableHead>
                     ))}
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {previewData.rows.map((row, rowIndex) => (
+                  {preview.rows.map((row, rowIndex) => (
                     <TableRow key={rowIndex}>
                       {row.map((cell, cellIndex) => (
                         <TableCell key={cellIndex}>{String(cell)}</TableCell>
@@ -453,6 +1096,39 @@ export function FileToClickHouse() {
               placeholder="Enter target table name"
             />
           </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="writeMode">If the table exists</Label>
+            <Select value={writeMode} onValueChange={(value) => setWriteMode(value as WriteMode)}>
+              <SelectTrigger id="writeMode">
+                <SelectValue placeholder="Select write mode" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="append">Append rows</SelectItem>
+                <SelectItem value="truncate">Truncate and load</SelectItem>
+                <SelectItem value="replace" disabled={useMapping}>
+                  Replace (drop and recreate)
+                </SelectItem>
+                <SelectItem value="fail" disabled={useMapping}>
+                  Fail if the table exists
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isFullRefresh && (
+            <div className="flex items-center space-x-2">
+              <Switch id="staging" checked={staging} onCheckedChange={setStaging} />
+              <Label htmlFor="staging">Load into a staging table and swap it in when complete</Label>
+            </div>
+          )}
+
+          <div className="flex items-center space-x-2">
+            <Switch id="useMapping" checked={useMapping} onCheckedChange={handleUseMappingChange} />
+            <Label htmlFor="useMapping">Map file columns onto an existing table</Label>
+          </div>
+
+          <ErrorPolicyEditor value={errorPolicy} onChange={setErrorPolicy} />
         </CardContent>
         <CardFooter>
           <Button
@@ -475,6 +1151,21 @@ export function FileToClickHouse() {
         </CardFooter>
       </Card>
 
+      {useMapping && columns.length > 0 && (
+        <ColumnMappingEditor
+          host={host}
+          port={port}
+          database={database}
+          username={username}
+          jwtToken={jwtToken}
+          useSSL={useSSL}
+          tableName={tableName}
+          sourceColumns={previewData?.columns ?? []}
+          value={mapping}
+          onChange={setMapping}
+        />
+      )}
+
       {errorMessage && (
         <Alert variant="destructive">
           <AlertCircle className="h-4 w-4" />
@@ -483,6 +1174,62 @@ export function FileToClickHouse() {
         </Alert>
       )}
 
+      {status === "error" && canResume && (
+        <Button variant="outline" onClick={handleResumeImport} className="w-full">
+          <Upload className="mr-2 h-4 w-4" />
+          Resume Import
+        </Button>
+      )}
+
+      {deduplicationWarning && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Repeated Batches Are Not Skipped</AlertTitle>
+          <AlertDescription>
+            {deduplicationWarning}. Set non_replicated_deduplication_window on a MergeTree table to have ClickHouse skip
+            them.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {schemaIssues.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Schema Check</CardTitle>
+            <CardDescription>Differences between the file and the table {tableName}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[100px]">Severity</TableHead>
+                    <TableHead>Column</TableHead>
+                    <TableHead>Problem</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {schemaIssues.map((issue, index) => (
+                    <TableRow key={index}>
+                      <TableCell>
+                        <Badge variant={issue.severity === "error" ? "destructive" : "secondary"}>{issue.severity}</Badge>
+                      </TableCell>
+                      <TableCell>{issue.column}</TableCell>
+                      <TableCell>
+                        {issue.message}
+                        {issue.examples && (
+                          <p className="text-sm text-muted-foreground">Examples: {issue.examples.join(", ")}</p>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {status === "importing" && (
         <Card>
           <CardHeader>
@@ -491,6 +1238,20 @@ export function FileToClickHouse() {
           <CardContent>
             <Progress value={progress} className="h-2" />
             <p className="text-center mt-2">{Math.round(progress)}%</p>
+            <p className="text-center text-sm text-muted-foreground">
+              {importStats.rowsProcessed.toLocaleString()} rows in {importStats.batchesDone} batches
+            </p>
+            {importStats.rowsRejected + importStats.rowsDefaulted > 0 && (
+              <p className="text-center text-sm text-muted-foreground">
+                {importStats.rowsRejected.toLocaleString()} skipped,{" "}
+                {importStats.rowsDefaulted.toLocaleString()} loaded with defaults
+              </p>
+            )}
+            {importStats.deduplicatedBatches.length > 0 && (
+              <p className="text-center text-sm text-muted-foreground">
+                {importStats.deduplicatedBatches.length} batches already inserted before were skipped
+              </p>
+            )}
           </CardContent>
         </Card>
       )}
@@ -501,6 +1262,31 @@ export function FileToClickHouse() {
           <AlertTitle>Import Successful</AlertTitle>
           <AlertDescription>
             Imported {result.recordCount} records to table {result.tableName}
+            {importStats.deduplicatedBatches.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                ClickHouse skipped batches {formatBatchList(importStats.deduplicatedBatches)} as they had been
+                inserted before
+              </p>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {(status === "success" || status === "error") && importStats.rowsRejected + importStats.rowsDefaulted > 0 && (
+        <Alert>
+          <FileText className="h-4 w-4" />
+          <AlertTitle>Rejected Rows</AlertTitle>
+          <AlertDescription>
+            {importStats.rowsRejected.toLocaleString()} rows were skipped and{" "}
+            {importStats.rowsDefaulted.toLocaleString()} rows were loaded with column defaults.{" "}
+            <a
+              href={`/api/import/file-to-clickhouse/rejects?${new URLSearchParams({ jobId })}`}
+              className="underline"
+              download
+            >
+              Download the reject file
+            </a>{" "}
+            for the line numbers and reasons.
           </AlertDescription>
         </Alert>
       )}
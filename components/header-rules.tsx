@@ -0,0 +1,30 @@
+"use client"
+
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { HEADER_RULE_LABELS, type HeaderRules } from "@/lib/import/headers"
+
+interface HeaderRulesEditorProps {
+  value: HeaderRules
+  onChange: (value: HeaderRules) => void
+}
+
+export function HeaderRulesEditor({ value, onChange }: HeaderRulesEditorProps) {
+  return (
+    <div className="space-y-2">
+      <Label>Column names from the header row</Label>
+      <div className="grid grid-cols-2 gap-2">
+        {(Object.keys(HEADER_RULE_LABELS) as (keyof HeaderRules)[]).map((rule) => (
+          <div key={rule} className="flex items-center space-x-2">
+            <Switch
+              id={`header-${rule}`}
+              checked={value[rule]}
+              onCheckedChange={(checked) => onChange({ ...value, [rule]: checked })}
+            />
+            <Label htmlFor={`header-${rule}`}>{HEADER_RULE_LABELS[rule]}</Label>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,167 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { X } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { DEDUPLICATION_WINDOW, TABLE_ENGINES, type TableEngine, type TableOptions } from "@/lib/import/ddl"
+
+interface TableOptionsEditorProps {
+  columnNames: string[]
+  value: TableOptions
+  onChange: (value: TableOptions) => void
+}
+
+interface KeyColumnPickerProps {
+  id: string
+  label: string
+  columnNames: string[]
+  value: string[]
+  onChange: (value: string[]) => void
+}
+
+// Ordered list of key columns, added one at a time so the order can be chosen
+function KeyColumnPicker({ id, label, columnNames, value, onChange }: KeyColumnPickerProps) {
+  const available = columnNames.filter((name) => !value.includes(name))
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <div className="flex flex-wrap gap-2 min-h-[24px]">
+        {value.length === 0 && <span className="text-sm text-muted-foreground">tuple()</span>}
+        {value.map((name) => (
+          <Badge key={name} variant="secondary" className="gap-1">
+            {name}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-4 w-4"
+              onClick={() => onChange(value.filter((item) => item !== name))}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </Badge>
+        ))}
+      </div>
+      <Select value="" onValueChange={(name) => onChange([...value, name])} disabled={available.length === 0}>
+        <SelectTrigger id={id}>
+          <SelectValue placeholder="Add column" />
+        </SelectTrigger>
+        <SelectContent>
+          {available.map((name) => (
+            <SelectItem key={name} value={name}>
+              {name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
+
+export function TableOptionsEditor({ columnNames, value, onChange }: TableOptionsEditorProps) {
+  const isLog = value.engine === "Log"
+  const needsEngineColumn = value.engine === "CollapsingMergeTree" || value.engine === "ReplacingMergeTree"
+
+  // Log tables have no keys, so clear them when switching to it
+  const handleEngineChange = (engine: TableEngine) => {
+    onChange(
+      engine === "Log"
+        ? { ...value, engine, orderBy: [], primaryKey: [], partitionBy: "", engineColumn: undefined }
+        : { ...value, engine, engineColumn: undefined },
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Table Options</CardTitle>
+        <CardDescription>Engine and keys used when the import creates the table</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="engine">Engine</Label>
+            <Select value={value.engine} onValueChange={(engine) => handleEngineChange(engine as TableEngine)}>
+              <SelectTrigger id="engine">
+                <SelectValue placeholder="Select engine" />
+              </SelectTrigger>
+              <SelectContent>
+                {TABLE_ENGINES.map((engine) => (
+                  <SelectItem key={engine} value={engine}>
+                    {engine}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {needsEngineColumn && (
+            <div className="space-y-2">
+              <Label htmlFor="engineColumn">
+                {value.engine === "CollapsingMergeTree" ? "Sign Column" : "Version Column (optional)"}
+              </Label>
+              <Select
+                value={value.engineColumn ?? ""}
+                onValueChange={(engineColumn) => onChange({ ...value, engineColumn })}
+              >
+                <SelectTrigger id="engineColumn">
+                  <SelectValue placeholder="Select column" />
+                </SelectTrigger>
+                <SelectContent>
+                  {columnNames.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        {!isLog && (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              <KeyColumnPicker
+                id="orderBy"
+                label="ORDER BY"
+                columnNames={columnNames}
+                value={value.orderBy}
+                onChange={(orderBy) =>
+                  // Keep only the part of the primary key that is still a prefix of ORDER BY
+                  onChange({ ...value, orderBy, primaryKey: value.primaryKey.filter((name, i) => orderBy[i] === name) })
+                }
+              />
+              <KeyColumnPicker
+                id="primaryKey"
+                label="PRIMARY KEY (prefix of ORDER BY)"
+                columnNames={value.orderBy}
+                value={value.primaryKey}
+                onChange={(primaryKey) => onChange({ ...value, primaryKey })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="partitionBy">PARTITION BY (optional)</Label>
+              <Input
+                id="partitionBy"
+                value={value.partitionBy}
+                onChange={(e) => onChange({ ...value, partitionBy: e.target.value })}
+                placeholder="toYYYYMM(order_date)"
+              />
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              The table is created with non_replicated_deduplication_window = {DEDUPLICATION_WINDOW}, so a retried
+              import skips the batches it loaded before. This applies to every later insert into the table: ClickHouse
+              drops any insert that repeats one of its last {DEDUPLICATION_WINDOW.toLocaleString()} inserts.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,83 @@
+import * as fs from "fs/promises"
+import * as path from "path"
+import * as os from "os"
+import { createHash } from "crypto"
+import type { ImportSettings } from "@/lib/import/pipeline"
+
+// Where an import stands after its last committed batch
+export interface ImportPosition {
+  // Byte offset and line number just past the last record read, both counting rows in Parquet files and sheets
+  offset: number
+  line: number
+  rowsRead: number
+  rowsProcessed: number
+  batchesDone: number
+  rowsDefaulted: number
+  deduplicatedBatches: number[]
+  // Size of the reject file at this point, so rows rejected after it aren't listed twice
+  rejectCount: number
+  rejectBytes: number
+  // Percentage of the file read, as shown while the import ran. Offsets count rows in some formats
+  // and decompressed bytes in compressed files, so they can't be compared with the upload's size.
+  progress: number
+  // Byte range and hash of the last committed batch, checked against the upload before resuming
+  batchStart: number
+  batchHash: string
+}
+
+// Saved once the target table is ready and after every committed batch. Connection
+// credentials are not part of it, they are asked for again when resuming.
+export interface ImportCheckpoint {
+  jobId: string
+  settings: ImportSettings
+  // Null until the first batch is committed
+  position: ImportPosition | null
+}
+
+const JOB_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Checkpoints live outside the upload directory, so a job can be found by its id after a restart
+export function checkpointPath(jobId: string): string {
+  if (!JOB_ID_PATTERN.test(jobId)) {
+    throw new Error(`Invalid import job id "${jobId}"`)
+  }
+  return path.join(os.tmpdir(), `import-checkpoint-${jobId}.json`)
+}
+
+// Write the checkpoint to a temporary file first, so a crash never leaves a half-written one
+export async function saveCheckpoint(checkpoint: ImportCheckpoint) {
+  const target = checkpointPath(checkpoint.jobId)
+  await fs.writeFile(`${target}.tmp`, JSON.stringify(checkpoint))
+  await fs.rename(`${target}.tmp`, target)
+}
+
+export async function loadCheckpoint(jobId: string): Promise<ImportCheckpoint | null> {
+  try {
+    return JSON.parse(await fs.readFile(checkpointPath(jobId), "utf8"))
+  } catch {
+    return null
+  }
+}
+
+export async function removeCheckpoint(jobId: string) {
+  await fs.rm(checkpointPath(jobId), { force: true })
+}
+
+// SHA-256 of a byte range of a file
+export async function hashFileRange(filePath: string, start: number, end: number): Promise<string> {
+  const hash = createHash("sha256")
+  const handle = await fs.open(filePath, "r")
+  try {
+    const buffer = Buffer.alloc(Math.min(end - start, 1024 * 1024))
+    let position = start
+    while (position < end) {
+      const { bytesRead } = await handle.read(buffer, 0, Math.min(buffer.length, end - position), position)
+      if (bytesRead === 0) break
+      hash.update(buffer.subarray(0, bytesRead))
+      position += bytesRead
+    }
+  } finally {
+    await handle.close()
+  }
+  return hash.digest("hex")
+}
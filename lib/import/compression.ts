@@ -0,0 +1,284 @@
+import { constants, createReadStream } from "fs"
+import * as fs from "fs/promises"
+import * as path from "path"
+import { spawn } from "child_process"
+import { PassThrough, Readable } from "stream"
+import { createGunzip, createInflateRaw } from "zlib"
+
+export type CompressionFormat = "none" | "gzip" | "zstd" | "bzip2" | "xz" | "zip"
+
+// How an upload is compressed, and for a zip archive the member that is loaded
+export interface Compression {
+  format: CompressionFormat
+  member?: string
+}
+
+export interface ZipMember {
+  name: string
+  // Uncompressed size in bytes
+  size: number
+  compressedSize: number
+  method: number
+  crc32: number
+  encrypted: boolean
+  // Offset of the member's local header in the archive
+  headerOffset: number
+}
+
+// Leading bytes of each compressed format
+const MAGIC_BYTES: { format: CompressionFormat; bytes: number[] }[] = [
+  { format: "gzip", bytes: [0x1f, 0x8b] },
+  { format: "zstd", bytes: [0x28, 0xb5, 0x2f, 0xfd] },
+  { format: "bzip2", bytes: [0x42, 0x5a, 0x68] },
+  { format: "xz", bytes: [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00] },
+  { format: "zip", bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { format: "zip", bytes: [0x50, 0x4b, 0x05, 0x06] },
+]
+
+// Formats Node cannot decompress by itself, decompressed by the command-line tool of the same name.
+// The tools must be installed on the server; uploads in a format whose tool is missing are refused.
+const DECOMPRESSION_COMMANDS: Partial<Record<CompressionFormat, string>> = {
+  zstd: "zstd",
+  bzip2: "bzip2",
+  xz: "xz",
+}
+
+// Zip members picked by default, before anything else in the archive
+const TEXT_FILE_PATTERN = /\.(csv|tsv|txt)$/i
+
+const ZIP_STORED = 0
+const ZIP_DEFLATED = 8
+
+const ZIP_END_SIGNATURE = 0x06054b50
+const ZIP64_END_SIGNATURE = 0x06064b50
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50
+const ZIP_CENTRAL_SIGNATURE = 0x02014b50
+const ZIP_LOCAL_SIGNATURE = 0x04034b50
+
+// Size of the end of central directory record without its comment, and the longest comment
+const ZIP_END_SIZE = 22
+const ZIP_MAX_COMMENT = 0xffff
+
+async function readRange(filePath: string, position: number, length: number): Promise<Buffer> {
+  const handle = await fs.open(filePath, "r")
+  try {
+    const buffer = Buffer.alloc(length)
+    const { bytesRead } = await handle.read(buffer, 0, length, position)
+    return buffer.subarray(0, bytesRead)
+  } finally {
+    await handle.close()
+  }
+}
+
+// Read the central directory of a zip archive, including Zip64 archives over 4 GB
+export async function listZipMembers(filePath: string): Promise<ZipMember[]> {
+  const { size } = await fs.stat(filePath)
+  const tailStart = Math.max(0, size - ZIP_END_SIZE - ZIP_MAX_COMMENT)
+  const tail = await readRange(filePath, tailStart, size - tailStart)
+
+  let end = -1
+  for (let i = tail.length - ZIP_END_SIZE; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === ZIP_END_SIGNATURE) {
+      end = i
+      break
+    }
+  }
+  if (end < 0) {
+    throw new Error("The zip archive is damaged: its central directory is missing")
+  }
+
+  let entryCount = tail.readUInt16LE(end + 10)
+  let directorySize = tail.readUInt32LE(end + 12)
+  let directoryOffset = tail.readUInt32LE(end + 16)
+
+  // A Zip64 archive keeps the real values in a second record, found through a locator just before
+  const locator = end - 20
+  if (locator >= 0 && tail.readUInt32LE(locator) === ZIP64_LOCATOR_SIGNATURE) {
+    const record = await readRange(filePath, Number(tail.readBigUInt64LE(locator + 8)), 56)
+    if (record.readUInt32LE(0) !== ZIP64_END_SIGNATURE) {
+      throw new Error("The zip archive is damaged: its Zip64 directory is missing")
+    }
+    entryCount = Number(record.readBigUInt64LE(32))
+    directorySize = Number(record.readBigUInt64LE(40))
+    directoryOffset = Number(record.readBigUInt64LE(48))
+  }
+
+  const directory = await readRange(filePath, directoryOffset, directorySize)
+  const members: ZipMember[] = []
+  let position = 0
+
+  for (let i = 0; i < entryCount; i++) {
+    if (directory.readUInt32LE(position) !== ZIP_CENTRAL_SIGNATURE) {
+      throw new Error("The zip archive is damaged: its central directory is corrupt")
+    }
+    const flags = directory.readUInt16LE(position + 8)
+    const nameLength = directory.readUInt16LE(position + 28)
+    const extraLength = directory.readUInt16LE(position + 30)
+    const commentLength = directory.readUInt16LE(position + 32)
+    const name = directory.toString("utf8", position + 46, position + 46 + nameLength)
+
+    let size = directory.readUInt32LE(position + 24)
+    let compressedSize = directory.readUInt32LE(position + 20)
+    let headerOffset = directory.readUInt32LE(position + 42)
+
+    // Fields too large for 32 bits are in the Zip64 extra field, in this order
+    const extraStart = position + 46 + nameLength
+    for (let extra = extraStart; extra + 4 <= extraStart + extraLength; ) {
+      const id = directory.readUInt16LE(extra)
+      const length = directory.readUInt16LE(extra + 2)
+      if (id === 0x0001) {
+        let field = extra + 4
+        const next = () => {
+          const value = Number(directory.readBigUInt64LE(field))
+          field += 8
+          return value
+        }
+        if (size === 0xffffffff) size = next()
+        if (compressedSize === 0xffffffff) compressedSize = next()
+        if (headerOffset === 0xffffffff) headerOffset = next()
+      }
+      extra += 4 + length
+    }
+
+    if (!name.endsWith("/")) {
+      members.push({
+        name,
+        size,
+        compressedSize,
+        method: directory.readUInt16LE(position + 10),
+        crc32: directory.readUInt32LE(position + 16),
+        encrypted: (flags & 1) === 1,
+        headerOffset,
+      })
+    }
+    position += 46 + nameLength + extraLength + commentLength
+  }
+
+  return members
+}
+
+// Member of an archive loaded when none is chosen: the first that looks like a text file
+export function defaultZipMember(members: ZipMember[]): ZipMember | undefined {
+  return members.find((member) => TEXT_FILE_PATTERN.test(member.name)) ?? members[0]
+}
+
+// Work out how a file is compressed from its first bytes. For a zip archive the member
+// asked for is checked, or the default member picked.
+export async function detectCompression(filePath: string, member?: string): Promise<Compression> {
+  const head = await readRange(filePath, 0, 6)
+  const format = MAGIC_BYTES.find((magic) => magic.bytes.every((byte, i) => head[i] === byte))?.format ?? "none"
+
+  if (format !== "zip") {
+    return { format }
+  }
+
+  const members = await listZipMembers(filePath)
+  const chosen = member ? members.find((candidate) => candidate.name === member) : defaultZipMember(members)
+  if (!chosen) {
+    throw new Error(member ? `The zip archive has no member "${member}"` : "The zip archive is empty")
+  }
+  return { format, member: chosen.name }
+}
+
+// Whether a command-line tool is installed on the server's PATH
+export async function isCommandAvailable(command: string): Promise<boolean> {
+  for (const dir of (process.env.PATH ?? "").split(path.delimiter).filter(Boolean)) {
+    try {
+      await fs.access(path.join(dir, command), constants.X_OK)
+      return true
+    } catch {
+      // Not in this directory
+    }
+  }
+  return false
+}
+
+// Why an upload can't be decompressed on this server, or undefined when it can
+export async function decompressorError(compression: Compression): Promise<string | undefined> {
+  const command = DECOMPRESSION_COMMANDS[compression.format]
+  if (command && !(await isCommandAvailable(command))) {
+    return `${command} is not installed on the server, so ${compression.format} files can't be decompressed`
+  }
+  return undefined
+}
+
+// Stream the data of a zip member, inflating it if it is deflated
+export async function openZipMember(filePath: string, name: string): Promise<Readable> {
+  const member = (await listZipMembers(filePath)).find((candidate) => candidate.name === name)
+  if (!member) {
+    throw new Error(`The zip archive has no member "${name}"`)
+  }
+  if (member.encrypted) {
+    throw new Error(`The zip member "${name}" is encrypted`)
+  }
+  if (member.method !== ZIP_STORED && member.method !== ZIP_DEFLATED) {
+    throw new Error(`The zip member "${name}" uses an unsupported compression method (${member.method})`)
+  }
+
+  const header = await readRange(filePath, member.headerOffset, 30)
+  if (header.readUInt32LE(0) !== ZIP_LOCAL_SIGNATURE) {
+    throw new Error("The zip archive is damaged: a member header is missing")
+  }
+  const dataStart = member.headerOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28)
+
+  if (member.compressedSize === 0) {
+    return Readable.from([])
+  }
+  const data = createReadStream(filePath, { start: dataStart, end: dataStart + member.compressedSize - 1 })
+  return member.method === ZIP_STORED ? data : pipeDecompressor(data, createInflateRaw())
+}
+
+// Pipe a file stream into a decompressor, passing read errors on and closing the file
+// when the consumer stops early
+function pipeDecompressor(input: Readable, decompressor: NodeJS.ReadWriteStream & Readable): Readable {
+  input.on("error", (error) => decompressor.destroy(error))
+  decompressor.on("close", () => input.destroy())
+  return input.pipe(decompressor)
+}
+
+// Decompress through a command-line tool. The output only ends once the tool has exited
+// cleanly, so a failure is never mistaken for the end of the data.
+function runDecompressor(command: string, input: Readable): Readable {
+  const child = spawn(command, ["-dc"], { stdio: ["pipe", "pipe", "pipe"] })
+  const output = new PassThrough()
+  let stderr = ""
+
+  child.stdout.pipe(output, { end: false })
+  child.stderr.on("data", (chunk: Buffer) => {
+    stderr += chunk.toString()
+  })
+  child.on("error", (error) => {
+    output.destroy(new Error(`Cannot run ${command} to decompress the file: ${error.message}`))
+  })
+  child.on("close", (code) => {
+    if (code === 0) {
+      output.end()
+    } else {
+      output.destroy(new Error(`${command} could not decompress the file: ${stderr.trim() || `exit code ${code}`}`))
+    }
+  })
+
+  input.on("error", (error) => output.destroy(error))
+  // The tool stops reading when the consumer stops early, which is not an error
+  child.stdin.on("error", () => {})
+  input.pipe(child.stdin)
+  output.on("close", () => {
+    input.destroy()
+    child.kill()
+  })
+  return output
+}
+
+// Open a stream of the decompressed contents of an upload
+export async function openDecompressed(filePath: string, compression: Compression): Promise<Readable> {
+  switch (compression.format) {
+    case "none":
+      return createReadStream(filePath)
+    case "gzip":
+      return pipeDecompressor(createReadStream(filePath), createGunzip())
+    case "zip":
+      return openZipMember(filePath, compression.member!)
+    default:
+      return runDecompressor(DECOMPRESSION_COMMANDS[compression.format]!, createReadStream(filePath))
+  }
+}
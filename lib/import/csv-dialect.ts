@@ -0,0 +1,102 @@
+import { parseJsonField } from "@/lib/sql"
+
+// Delimiters offered to pick from; any other single character can be typed in
+export const DELIMITER_CHOICES = [
+  { delimiter: ",", label: "Comma" },
+  { delimiter: "\t", label: "Tab" },
+  { delimiter: ";", label: "Semicolon" },
+  { delimiter: "|", label: "Pipe" },
+]
+
+// Let the server work out the delimiter from the start of the file
+export const AUTO_DELIMITER = "auto"
+
+// What happens to a row with fewer fields than the first row: rejected like a row that can't be
+// read, or padded with empty values, which load as nulls
+export const SHORT_ROW_ACTIONS = ["reject", "pad"] as const
+
+export type ShortRowAction = (typeof SHORT_ROW_ACTIONS)[number]
+
+// What happens to a row with more fields than the first row: rejected, or cut down to size
+export const LONG_ROW_ACTIONS = ["reject", "truncate"] as const
+
+export type LongRowAction = (typeof LONG_ROW_ACTIONS)[number]
+
+// How a CSV file is written, besides its delimiter and header row
+export interface CsvDialect {
+  // Character around values holding delimiters or line breaks, none when empty
+  quote: string
+  // Character escaping a quote inside a quoted value, none when empty
+  escape: string
+  // Lines starting with this are skipped, none when empty
+  comment: string
+  // Lines dropped before the header row, such as report banners, and at the end of the file, such as footers
+  skipLeadingLines: number
+  skipTrailingLines: number
+  // Unquoted values loaded as empty, such as \N, NULL or -
+  nullTokens: string[]
+  // Whether whitespace around values is dropped
+  trim: boolean
+  shortRows: ShortRowAction
+  longRows: LongRowAction
+}
+
+// Rows of a file with too few or too many fields, with the first few of them to look at
+export interface RaggedRowCount {
+  count: number
+  examples: { line: number; fieldCount: number; raw: string }[]
+}
+
+export interface RaggedRowReport {
+  // Number of fields rows are expected to have, those of the first row
+  fieldCount: number
+  // Rows looked at, which are those of the preview and type inference sample unless the file ended first
+  rowsChecked: number
+  wholeFile: boolean
+  short: RaggedRowCount
+  long: RaggedRowCount
+}
+
+export const DEFAULT_CSV_DIALECT: CsvDialect = {
+  quote: '"',
+  escape: '"',
+  comment: "",
+  skipLeadingLines: 0,
+  skipTrailingLines: 0,
+  nullTokens: [],
+  trim: true,
+  shortRows: "reject",
+  longRows: "reject",
+}
+
+// Read a dialect from a request's JSON field, filling in defaults for anything not given
+export function parseCsvDialect(json: string | undefined): CsvDialect {
+  return { ...DEFAULT_CSV_DIALECT, ...(json ? (parseJsonField(json, "CSV dialect") as object) : {}) }
+}
+
+// Why a dialect can't be used with a delimiter, or undefined when it can
+export function csvDialectError(dialect: CsvDialect, delimiter: string): string | undefined {
+  const { quote, escape, comment, skipLeadingLines, skipTrailingLines, nullTokens } = dialect
+  if (!delimiter) {
+    return "The delimiter must not be empty"
+  }
+  if (typeof quote !== "string" || quote.length > 1 || typeof escape !== "string" || escape.length > 1) {
+    return "The quote and escape characters must be a single character or empty"
+  }
+  if (typeof comment !== "string" || typeof dialect.trim !== "boolean") {
+    return "The comment prefix must be text and trimming on or off"
+  }
+  if (quote && (quote === delimiter || quote === comment)) {
+    return "The quote character must differ from the delimiter and the comment prefix"
+  }
+  if (![skipLeadingLines, skipTrailingLines].every((lines) => Number.isInteger(lines) && lines >= 0)) {
+    return "The number of lines to skip must be a whole number from 0"
+  }
+  if (!SHORT_ROW_ACTIONS.includes(dialect.shortRows) || !LONG_ROW_ACTIONS.includes(dialect.longRows)) {
+    return "Rows with too few fields can be rejected or padded, rows with too many rejected or truncated"
+  }
+  if (!Array.isArray(nullTokens) || !nullTokens.every((token) => typeof token === "string")) {
+    return "Null tokens must be a list of text values"
+  }
+  return undefined
+}
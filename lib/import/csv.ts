@@ -0,0 +1,236 @@
+import { createReadStream } from "fs"
+import { Transform, type Readable } from "stream"
+import { parse, type Parser } from "csv-parse"
+import type { SourceEncoding } from "@/lib/import/encoding"
+import type { Compression } from "@/lib/import/compression"
+import { createDecodingStream, needsTranscoding, readTextHead } from "@/lib/import/transcode"
+import { AUTO_DELIMITER, DEFAULT_CSV_DIALECT, DELIMITER_CHOICES, type CsvDialect } from "@/lib/import/csv-dialect"
+import { normalizeHeaders, type HeaderRules } from "@/lib/import/headers"
+
+// Number of lines from the start of a file looked at to detect its delimiter
+const DELIMITER_DETECTION_LINES = 50
+
+export interface CsvOptions extends Partial<CsvDialect> {
+  delimiter: string
+  hasHeader: boolean
+  // Drop records the parser cannot read (e.g. a wrong number of fields) instead of failing.
+  // Each dropped record is announced with a "skip" event carrying the error and its raw text.
+  skipInvalidRecords?: boolean
+  // Byte offset to start reading a file at, which must be the start of a record.
+  // Leading lines are only skipped when reading from the start.
+  start?: number
+  // How to decode the input, UTF-8 when not given. Record byte offsets
+  // then count the decoded UTF-8 text, not the bytes of the input.
+  encoding?: SourceEncoding
+}
+
+// A record as yielded by the parser, with the line and byte offset it ends at and its original text
+export interface CsvRecord {
+  record: string[]
+  info: { lines: number; bytes: number }
+  raw: string
+  // Set when the record had fewer or more fields than the first and was padded or truncated
+  ragged?: { kind: "short" | "long"; fieldCount: number }
+}
+
+// Line a record starts on in the file, from the line it ends on and its raw text,
+// so records with quoted line breaks are reported where they begin
+export function recordStartLine(endLine: number, raw: string): number {
+  const lineBreaks = raw.replace(/\r?\n$/, "").match(/\n/g)?.length ?? 0
+  return endLine - lineBreaks
+}
+
+// Open a streaming CSV parser over a file on disk, or over a stream such as a decompressed
+// upload. Every record is a `CsvRecord` whose fields are an array of values, header row included.
+// Records are pulled on demand, so consuming the parser with `for await` applies backpressure
+// all the way to the file read.
+export function createCsvStream(input: string | Readable, options: CsvOptions): Parser {
+  const { delimiter, skipInvalidRecords = false, start = 0, encoding } = options
+  const { quote, escape, comment, skipLeadingLines, skipTrailingLines, nullTokens, trim, shortRows, longRows } = {
+    ...DEFAULT_CSV_DIALECT,
+    ...options,
+  }
+
+  // Every row is expected to have the fields of the first. Rows that don't are padded or
+  // truncated as asked, and otherwise fail or are skipped like any row that can't be read.
+  let fieldCount: number | undefined
+  const fitRecord = (record: CsvRecord) => {
+    fieldCount ??= record.record.length
+    const length = record.record.length
+    if (length === fieldCount) return record
+
+    const kind = length < fieldCount ? "short" : "long"
+    if ((kind === "short" && shortRows === "pad") || (kind === "long" && longRows === "truncate")) {
+      const fields = Array.from({ length: fieldCount }, (_, i) => record.record[i] ?? "")
+      return { ...record, record: fields, ragged: { kind, fieldCount: length } }
+    }
+
+    const error = Object.assign(
+      new Error(`Invalid Record Length: expect ${fieldCount}, got ${length} on line ${record.info.lines}`),
+      { code: "CSV_RECORD_INCONSISTENT_FIELDS_LENGTH", lines: record.info.lines },
+    )
+    if (!skipInvalidRecords) throw error
+    parser.emit("skip", error, record.raw)
+    return null
+  }
+
+  const parser = parse({
+    delimiter,
+    quote: quote || false,
+    escape: escape || null,
+    comment: comment || undefined,
+    // Only whole lines are comments, so the prefix can still appear inside values
+    comment_no_infix: true,
+    skip_empty_lines: true,
+    trim,
+    info: true,
+    raw: true,
+    skip_records_with_error: skipInvalidRecords,
+    relax_column_count: true,
+    on_record: fitRecord,
+    // Quoted values are kept as they are, so a quoted "NULL" is still text
+    cast:
+      nullTokens.length > 0
+        ? (value, context) => (!context.quoting && nullTokens.includes(value) ? "" : value)
+        : undefined,
+  })
+
+  const source = typeof input === "string" ? createReadStream(input, { start }) : input
+  source.on("error", (error: Error) => parser.destroy(error))
+  // Stop reading when the consumer stops early (e.g. a preview that only needs 100 rows)
+  parser.on("close", () => source.destroy())
+
+  let text = encoding && needsTranscoding(encoding) ? source.pipe(createDecodingStream(encoding.encoding)) : source
+  if (start === 0 && skipLeadingLines > 0) {
+    text = text.pipe(createLeadingLinesFilter(skipLeadingLines))
+  }
+  if (skipTrailingLines > 0) {
+    text = text.pipe(createTrailingLinesFilter(skipTrailingLines))
+  }
+  return text.pipe(parser)
+}
+
+// A stream that drops the first `count` lines of text. Lines are split on line breaks alone,
+// so banners with stray quotes or a different number of fields don't upset the parser.
+function createLeadingLinesFilter(count: number): Transform {
+  let remaining = count
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      let position = 0
+      while (remaining > 0) {
+        const end = chunk.indexOf(0x0a, position)
+        if (end < 0) return callback()
+        position = end + 1
+        remaining--
+      }
+      callback(null, chunk.subarray(position))
+    },
+  })
+}
+
+// A stream that drops the last `count` lines of text. It holds back that many lines until
+// the input ends, so only the end of the file is affected and byte offsets stay the same.
+function createTrailingLinesFilter(count: number): Transform {
+  let held = Buffer.alloc(0)
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      held = Buffer.concat([held, chunk])
+      // Pass on everything up to the line break before the last `count` complete lines
+      let end = held.length
+      for (let i = 0; i <= count; i++) {
+        end = end > 0 ? held.lastIndexOf(0x0a, end - 1) : -1
+        if (end < 0) return callback()
+      }
+      const ready = held.subarray(0, end + 1)
+      held = held.subarray(end + 1)
+      callback(null, ready)
+    },
+    flush(callback) {
+      // The last line needn't end with a line break
+      let lineCount = held.length > 0 && held[held.length - 1] !== 0x0a ? 1 : 0
+      for (let i = held.indexOf(0x0a); i >= 0; i = held.indexOf(0x0a, i + 1)) lineCount++
+
+      let end = 0
+      for (let i = 0; i < lineCount - count; i++) {
+        const lineEnd = held.indexOf(0x0a, end)
+        end = lineEnd < 0 ? held.length : lineEnd + 1
+      }
+      callback(null, held.subarray(0, end))
+    },
+  })
+}
+
+// Byte offset and number of lines just past the leading lines of a file, where an import
+// starts reading when they are skipped
+export async function findLeadingLinesEnd(filePath: string, count: number): Promise<{ bytes: number; lines: number }> {
+  let bytes = 0
+  let lines = 0
+  if (count === 0) return { bytes, lines }
+  for await (const chunk of createReadStream(filePath) as AsyncIterable<Buffer>) {
+    let position = 0
+    while (lines < count) {
+      const end = chunk.indexOf(0x0a, position)
+      if (end < 0) break
+      position = end + 1
+      lines++
+    }
+    if (lines === count) return { bytes: bytes + position, lines }
+    bytes += chunk.length
+  }
+  return { bytes, lines }
+}
+
+// Number of times a delimiter appears in a line outside quoted text
+function countDelimiters(line: string, delimiter: string, quote: string): number {
+  let count = 0
+  let quoted = false
+  for (const ch of line) {
+    if (quote && ch === quote) quoted = !quoted
+    else if (ch === delimiter && !quoted) count++
+  }
+  return count
+}
+
+// Guess the delimiter from the start of a file: the one that splits the most lines into the same
+// number of fields, and of those the one giving the most fields. Comma when none appears.
+export function detectDelimiter(sample: string, dialect: CsvDialect = DEFAULT_CSV_DIALECT): string {
+  const { quote, comment, skipLeadingLines } = dialect
+  // The last line of the sample may be cut off
+  const lines = sample
+    .split(/\r?\n/)
+    .slice(skipLeadingLines, -1)
+    .filter((line) => line.trim() !== "" && !(comment && line.startsWith(comment)))
+    .slice(0, DELIMITER_DETECTION_LINES)
+
+  let best = { delimiter: ",", lineCount: 0, delimiterCount: 0 }
+  for (const { delimiter } of DELIMITER_CHOICES) {
+    const tally = new Map<number, number>()
+    for (const line of lines) {
+      const count = countDelimiters(line, delimiter, quote)
+      if (count > 0) tally.set(count, (tally.get(count) ?? 0) + 1)
+    }
+    tally.forEach((lineCount, delimiterCount) => {
+      if (lineCount > best.lineCount || (lineCount === best.lineCount && delimiterCount > best.delimiterCount)) {
+        best = { delimiter, lineCount, delimiterCount }
+      }
+    })
+  }
+  return best.delimiter
+}
+
+// Work out the delimiter of a file, or keep the one asked for
+export async function resolveDelimiter(
+  filePath: string,
+  requested: string,
+  dialect: CsvDialect,
+  compression: Compression = { format: "none" },
+  encoding?: SourceEncoding,
+): Promise<string> {
+  if (requested !== AUTO_DELIMITER) return requested
+  return detectDelimiter(await readTextHead(filePath, compression, encoding), dialect)
+}
+
+// Column names for a file: the header row made into names by the rules, or Column1..N for files without one
+export function sourceColumnNames(firstRecord: string[], hasHeader: boolean, rules?: HeaderRules): string[] {
+  return hasHeader ? normalizeHeaders(firstRecord, rules) : firstRecord.map((_, i) => `Column${i + 1}`)
+}
@@ -0,0 +1,275 @@
+import { unwrapType } from "@/lib/import/values"
+
+// How the values of a Date or DateTime column are written in the file
+export interface DateParseFormat {
+  // A pattern of YYYY, YY, MM, M, DD, D, HH, H, mm, ss, SSS and Z (UTC offset) with literal
+  // characters in between, or one of the special formats "iso", "epoch_s" and "epoch_ms"
+  format: string
+  // IANA time zone of values that carry no offset, UTC when empty
+  timeZone: string
+}
+
+export const DATE_FORMAT_PRESETS = [
+  { format: "iso", label: "ISO 8601, with or without offset" },
+  { format: "YYYY-MM-DD", label: "YYYY-MM-DD" },
+  { format: "DD/MM/YYYY", label: "DD/MM/YYYY" },
+  { format: "MM/DD/YYYY", label: "MM/DD/YYYY" },
+  { format: "DD.MM.YYYY HH:mm:ss", label: "DD.MM.YYYY HH:mm:ss" },
+  { format: "MM-DD-YY HH:mm", label: "MM-DD-YY HH:mm" },
+  { format: "epoch_s", label: "Unix epoch seconds" },
+  { format: "epoch_ms", label: "Unix epoch milliseconds" },
+]
+
+interface DateParts {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+  // Fraction of a second as written, up to 9 digits
+  fraction: string
+  // Offset from UTC in minutes when the value carries one
+  offset?: number
+}
+
+const FORMAT_TOKENS: Record<string, string> = {
+  YYYY: "(\\d{4})",
+  YY: "(\\d{2})",
+  MM: "(\\d{2})",
+  M: "(\\d{1,2})",
+  DD: "(\\d{2})",
+  D: "(\\d{1,2})",
+  HH: "(\\d{2})",
+  H: "(\\d{1,2})",
+  mm: "(\\d{2})",
+  ss: "(\\d{2})",
+  SSS: "(\\d{1,9})",
+  Z: "(Z|[+-]\\d{2}:?\\d{2})",
+}
+
+const FORMAT_TOKEN_PATTERN = /YYYY|YY|MM|M|DD|D|HH|H|mm|ss|SSS|Z/g
+
+const ISO_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,9}))?)?)?(Z|[+-]\d{2}:?\d{2})?$/
+
+function parseOffset(text: string): number {
+  if (text === "Z") return 0
+  const [, sign, hours, minutes] = /^([+-])(\d{2}):?(\d{2})$/.exec(text)!
+  return (sign === "-" ? -1 : 1) * (Number(hours) * 60 + Number(minutes))
+}
+
+// Two-digit years up to 69 are taken as 20xx, like POSIX strptime
+function expandYear(text: string): number {
+  const year = Number(text)
+  return year < 70 ? 2000 + year : 1900 + year
+}
+
+// Compile a format pattern into a function that splits a value into date parts
+function compilePattern(format: string): (value: string) => DateParts | null {
+  const fields: string[] = []
+  let pattern = ""
+  let last = 0
+  for (const match of format.matchAll(FORMAT_TOKEN_PATTERN)) {
+    pattern += format.slice(last, match.index).replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    pattern += FORMAT_TOKENS[match[0]]
+    fields.push(match[0])
+    last = match.index! + match[0].length
+  }
+  pattern += format.slice(last).replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+  if (!fields.some((field) => field.startsWith("Y")) || !fields.some((field) => field.startsWith("M"))) {
+    throw new Error(`Date format "${format}" needs at least a year and a month`)
+  }
+
+  const regex = new RegExp(`^${pattern}$`)
+  return (value) => {
+    const match = regex.exec(value)
+    if (!match) return null
+
+    const parts: DateParts = { year: 1970, month: 1, day: 1, hour: 0, minute: 0, second: 0, fraction: "" }
+    fields.forEach((field, i) => {
+      const text = match[i + 1]
+      switch (field) {
+        case "YYYY":
+          parts.year = Number(text)
+          break
+        case "YY":
+          parts.year = expandYear(text)
+          break
+        case "MM":
+        case "M":
+          parts.month = Number(text)
+          break
+        case "DD":
+        case "D":
+          parts.day = Number(text)
+          break
+        case "HH":
+        case "H":
+          parts.hour = Number(text)
+          break
+        case "mm":
+          parts.minute = Number(text)
+          break
+        case "ss":
+          parts.second = Number(text)
+          break
+        case "SSS":
+          parts.fraction = text
+          break
+        case "Z":
+          parts.offset = parseOffset(text)
+          break
+      }
+    })
+    return parts
+  }
+}
+
+function parseIso(value: string): DateParts | null {
+  const match = ISO_PATTERN.exec(value)
+  if (!match) return null
+  const [, year, month, day, hour = "0", minute = "0", second = "0", fraction = "", offset] = match
+  return {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hour: Number(hour),
+    minute: Number(minute),
+    second: Number(second),
+    fraction,
+    offset: offset ? parseOffset(offset) : undefined,
+  }
+}
+
+// Epoch values are instants, so they are expressed as UTC parts
+function parseEpoch(value: string, unit: "s" | "ms"): DateParts | null {
+  const match = unit === "s" ? /^(-?\d+)(?:\.(\d{1,9}))?$/.exec(value) : /^(-?\d+)$/.exec(value)
+  if (!match) return null
+
+  const seconds = unit === "s" ? Number(match[1]) : Math.floor(Number(match[1]) / 1000)
+  const date = new Date(seconds * 1000)
+  if (Number.isNaN(date.getTime())) return null
+
+  const fraction = unit === "s" ? (match[2] ?? "") : pad(Number(match[1]) - seconds * 1000, 3)
+  return { ...utcParts(date), fraction, offset: 0 }
+}
+
+function utcParts(date: Date): Omit<DateParts, "fraction"> {
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+  }
+}
+
+function isValidParts({ year, month, day, hour, minute, second }: DateParts): boolean {
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate()
+  return month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth && hour < 24 && minute < 60 && second < 60
+}
+
+// Check a time zone name, returning a formatter that reads wall-clock time in it
+function zoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  try {
+    return new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    })
+  } catch {
+    throw new Error(`Unknown time zone "${timeZone}"`)
+  }
+}
+
+// Offset of a time zone from UTC at an instant, in milliseconds
+function zoneOffset(formatter: Intl.DateTimeFormat, instant: number): number {
+  const parts = Object.fromEntries(formatter.formatToParts(new Date(instant)).map((part) => [part.type, part.value]))
+  const wallClock = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second),
+  )
+  return wallClock - Math.floor(instant / 1000) * 1000
+}
+
+// The UTC instant (in whole seconds, as milliseconds) of date parts, using their offset if they have one
+function toInstant(parts: DateParts, formatter: Intl.DateTimeFormat | null): number {
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+  if (parts.offset !== undefined) return wallClock - parts.offset * 60 * 1000
+  if (!formatter) return wallClock
+
+  // Guess with the offset at the wall-clock time, then correct it across a DST change
+  const guess = wallClock - zoneOffset(formatter, wallClock)
+  return wallClock - zoneOffset(formatter, guess)
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, "0")
+}
+
+const DATE_TYPES = new Set(["Date", "Date32"])
+
+// Build a converter from file values in the given format to values ClickHouse reads for the
+// column type: YYYY-MM-DD for dates, UTC ISO 8601 for date-times, so the instant is kept whatever
+// the column's time zone. Throws for a value that doesn't match the format.
+export function createDateParser({ format, timeZone }: DateParseFormat, type: string): (value: string) => string {
+  const baseType = unwrapType(type)
+  const isDate = DATE_TYPES.has(baseType)
+  if (!isDate && !baseType.startsWith("DateTime")) {
+    throw new Error(`Date formats only apply to Date and DateTime columns, not ${baseType}`)
+  }
+
+  const split =
+    format === "iso"
+      ? parseIso
+      : format === "epoch_s"
+        ? (value: string) => parseEpoch(value, "s")
+        : format === "epoch_ms"
+          ? (value: string) => parseEpoch(value, "ms")
+          : compilePattern(format)
+  const formatter = timeZone ? zoneFormatter(timeZone) : null
+  const precision = baseType.startsWith("DateTime64") ? Number(/^DateTime64\((\d+)/.exec(baseType)?.[1] ?? 3) : 0
+
+  return (value) => {
+    if (value === "") return value
+
+    const parts = split(value.trim())
+    if (!parts || !isValidParts(parts)) {
+      throw new Error(`Value "${value}" does not match the date format ${format}`)
+    }
+
+    // Calendar dates are taken as written, unless the value is an instant that needs the zone's date
+    if (isDate && parts.offset === undefined) {
+      return `${pad(parts.year, 4)}-${pad(parts.month)}-${pad(parts.day)}`
+    }
+
+    const instant = new Date(toInstant(parts, formatter))
+    if (isDate) {
+      const local = formatter ? new Date(instant.getTime() + zoneOffset(formatter, instant.getTime())) : instant
+      return local.toISOString().slice(0, 10)
+    }
+
+    const fraction = precision > 0 ? `.${parts.fraction.padEnd(precision, "0").slice(0, precision)}` : ""
+    return `${instant.toISOString().slice(0, 19)}${fraction}Z`
+  }
+}
+
+// Add a time zone to a DateTime or DateTime64 type, e.g. DateTime('Europe/Berlin')
+export function withTimeZone(type: string, timeZone: string): string {
+  if (!timeZone) return type
+  if (type === "DateTime") return `DateTime('${timeZone}')`
+  const dateTime64 = /^DateTime64\((\d+)\)$/.exec(type)
+  return dateTime64 ? `DateTime64(${dateTime64[1]}, '${timeZone}')` : type
+}
@@ -0,0 +1,200 @@
+import { quoteIdentifier, validateExpression, SqlValidationError } from "@/lib/sql"
+import { isCompositeType } from "@/lib/import/values"
+
+export interface ImportColumn {
+  name: string
+  type: string
+}
+
+export interface ColumnWrappers {
+  nullable: boolean
+  lowCardinality: boolean
+}
+
+// Apply the Nullable and LowCardinality wrappers to a base type, e.g. LowCardinality(Nullable(String)).
+// Nested types take neither, an empty value loads as an empty Map, Tuple or JSON object instead.
+export function wrapColumnType(type: string, { nullable, lowCardinality }: ColumnWrappers): string {
+  if (isCompositeType(type)) return type
+  const nullableType = nullable ? `Nullable(${type})` : type
+  return lowCardinality ? `LowCardinality(${nullableType})` : nullableType
+}
+
+export const TABLE_ENGINES = [
+  "MergeTree",
+  "ReplacingMergeTree",
+  "SummingMergeTree",
+  "AggregatingMergeTree",
+  "CollapsingMergeTree",
+  "Log",
+] as const
+
+export type TableEngine = (typeof TABLE_ENGINES)[number]
+
+export const WRITE_MODES = ["append", "truncate", "replace", "fail"] as const
+
+// What to do when the target table already exists:
+// append rows, TRUNCATE then load, DROP and recreate, or refuse to import
+export type WriteMode = (typeof WRITE_MODES)[number]
+
+export interface TableOptions {
+  engine: TableEngine
+  orderBy: string[]
+  primaryKey: string[]
+  partitionBy: string
+  // Sign column for CollapsingMergeTree, optional version column for ReplacingMergeTree
+  engineColumn?: string
+}
+
+// Number of recent inserts a MergeTree table remembers to drop repeated batches. Replicated
+// tables deduplicate by default, plain MergeTree tables only with this table setting.
+export const DEDUPLICATION_WINDOW = 10000
+
+export const DEFAULT_TABLE_OPTIONS: TableOptions = {
+  engine: "MergeTree",
+  orderBy: [],
+  primaryKey: [],
+  partitionBy: "",
+}
+
+// Check table options from a request against the columns being created
+export function validateTableOptions(input: unknown, columns: ImportColumn[]): TableOptions {
+  const options = { ...DEFAULT_TABLE_OPTIONS, ...(input as Partial<TableOptions>) }
+  const columnNames = new Set(columns.map((col) => col.name))
+
+  if (!TABLE_ENGINES.includes(options.engine)) {
+    throw new SqlValidationError(`Unsupported table engine "${options.engine}"`)
+  }
+
+  if (!Array.isArray(options.orderBy) || !Array.isArray(options.primaryKey)) {
+    throw new SqlValidationError("ORDER BY and PRIMARY KEY must be lists of columns")
+  }
+
+  for (const name of [...options.orderBy, ...options.primaryKey]) {
+    if (!columnNames.has(name)) {
+      throw new SqlValidationError(`Key column "${name}" is not one of the imported columns`)
+    }
+  }
+
+  // ClickHouse requires the primary key to be a prefix of the sorting key
+  if (options.primaryKey.some((name, i) => options.orderBy[i] !== name)) {
+    throw new SqlValidationError("PRIMARY KEY must be a prefix of ORDER BY")
+  }
+
+  const partitionBy = typeof options.partitionBy === "string" ? options.partitionBy.trim() : ""
+  if (partitionBy) {
+    validateExpression(partitionBy)
+  }
+
+  if (options.engine === "Log" && (options.orderBy.length > 0 || options.primaryKey.length > 0 || partitionBy)) {
+    throw new SqlValidationError("The Log engine does not support ORDER BY, PRIMARY KEY or PARTITION BY")
+  }
+
+  const engineColumn = options.engineColumn || undefined
+  if (options.engine === "CollapsingMergeTree" && !engineColumn) {
+    throw new SqlValidationError("CollapsingMergeTree requires a sign column")
+  }
+  if (engineColumn && !columnNames.has(engineColumn)) {
+    throw new SqlValidationError(`Engine column "${engineColumn}" is not one of the imported columns`)
+  }
+
+  return {
+    engine: options.engine,
+    orderBy: options.orderBy,
+    primaryKey: options.primaryKey,
+    partitionBy,
+    engineColumn: options.engine === "CollapsingMergeTree" || options.engine === "ReplacingMergeTree" ? engineColumn : undefined,
+  }
+}
+
+// Quote a column name for an expression unless it needs no quoting. Unlike quoteIdentifier it accepts
+// the empty name a column has while it is being renamed.
+function expressionIdentifier(name: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : "`" + name.replace(/\\/g, "\\\\").replace(/`/g, "\\`") + "`"
+}
+
+// Follow a column rename in the table options: the key columns, the engine column and the
+// partition expression, where the name is replaced wherever it stands for the column
+export function renameTableOptionsColumn(options: TableOptions, from: string, to: string): TableOptions {
+  const rename = (name: string) => (name === from ? to : name)
+  // String literals are kept, quoted names are unescaped to compare them, and a bare word
+  // followed by an opening parenthesis is a function name
+  const partitionBy = options.partitionBy.replace(
+    /'(?:[^'\\]|\\.)*'|`((?:[^`\\]|\\.)*)`|[A-Za-z_][A-Za-z0-9_]*\b(?!\s*\()/g,
+    (token, quoted: string | undefined) => {
+      if (token.startsWith("'")) return token
+      const name = quoted !== undefined ? quoted.replace(/\\(.)/g, "$1") : token
+      return name === from ? expressionIdentifier(to) : token
+    },
+  )
+  return {
+    ...options,
+    orderBy: options.orderBy.map(rename),
+    primaryKey: options.primaryKey.map(rename),
+    engineColumn: options.engineColumn === undefined ? undefined : rename(options.engineColumn),
+    partitionBy,
+  }
+}
+
+function keyList(names: string[]): string {
+  return names.length === 0 ? "tuple()" : `(${names.map(quoteIdentifier).join(", ")})`
+}
+
+// Build the CREATE TABLE statement for an import from validated columns and options
+export function buildCreateTableQuery(tableName: string, columns: ImportColumn[], options: TableOptions): string {
+  const engineArgs = options.engineColumn ? quoteIdentifier(options.engineColumn) : ""
+  const clauses = [`ENGINE = ${options.engine}(${engineArgs})`]
+
+  if (options.engine !== "Log") {
+    clauses.push(`ORDER BY ${keyList(options.orderBy)}`)
+    if (options.partitionBy) {
+      clauses.push(`PARTITION BY ${options.partitionBy}`)
+    }
+    if (options.primaryKey.length > 0) {
+      clauses.push(`PRIMARY KEY ${keyList(options.primaryKey)}`)
+    }
+    clauses.push(`SETTINGS non_replicated_deduplication_window = ${DEDUPLICATION_WINDOW}`)
+  }
+
+  return [
+    `CREATE TABLE ${quoteIdentifier(tableName)} (`,
+    columns.map((col) => `  ${quoteIdentifier(col.name)} ${col.type}`).join(",\n"),
+    `) ${clauses.join("\n")}`,
+  ].join("\n")
+}
+
+const CREATE_TABLE_PREFIX = /^CREATE\s+TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?/i
+
+// Where the table name of a CREATE TABLE statement ends, or -1 when it creates another table.
+// The name may be written quoted, or as it is when it needs no quoting.
+function tableNameEnd(statement: string, tableName: string): number {
+  const prefix = CREATE_TABLE_PREFIX.exec(statement)
+  if (!prefix) return -1
+  const quotedName = quoteIdentifier(tableName)
+  const names = /^[A-Za-z_][A-Za-z0-9_]*$/.test(tableName) ? [quotedName, tableName] : [quotedName]
+  const rest = statement.slice(prefix[0].length)
+  const name = names.find((name) => rest.startsWith(name) && /^[\s(]/.test(rest.slice(name.length)))
+  return name ? prefix[0].length + name.length : -1
+}
+
+// Check that a CREATE TABLE statement edited by hand creates the import's table in the current database,
+// and return it without a trailing semicolon. Everything past the table name is left to ClickHouse.
+export function validateCreateTableQuery(query: string, tableName: string): string {
+  const statement = typeof query === "string" ? query.trim().replace(/;\s*$/, "") : ""
+  if (!CREATE_TABLE_PREFIX.test(statement)) {
+    throw new SqlValidationError("The statement must be a CREATE TABLE statement")
+  }
+  if (tableNameEnd(statement, tableName) < 0) {
+    throw new SqlValidationError(`The statement must create table ${quoteIdentifier(tableName)}`)
+  }
+  return statement
+}
+
+// The same validated statement creating another table, such as a staging table
+export function renameCreateTableQuery(statement: string, tableName: string, newName: string): string {
+  const end = tableNameEnd(statement, tableName)
+  const prefix = CREATE_TABLE_PREFIX.exec(statement)
+  if (!prefix || end < 0) {
+    throw new SqlValidationError(`The statement must create table ${quoteIdentifier(tableName)}`)
+  }
+  return `${prefix[0]}${quoteIdentifier(newName)}${statement.slice(end)}`
+}
@@ -0,0 +1,30 @@
+// Encodings that can be picked instead of the detected one, as WHATWG encoding labels
+export const SUPPORTED_ENCODINGS = [
+  { encoding: "utf-8", label: "UTF-8" },
+  { encoding: "utf-16le", label: "UTF-16LE" },
+  { encoding: "utf-16be", label: "UTF-16BE" },
+  { encoding: "windows-1252", label: "Windows-1252 (Western European)" },
+  { encoding: "windows-1250", label: "Windows-1250 (Central European)" },
+  { encoding: "windows-1251", label: "Windows-1251 (Cyrillic)" },
+  { encoding: "iso-8859-2", label: "ISO-8859-2 (Latin-2)" },
+  { encoding: "iso-8859-15", label: "ISO-8859-15 (Latin-9)" },
+  { encoding: "shift_jis", label: "Shift_JIS" },
+  { encoding: "gb18030", label: "GB18030" },
+]
+
+// Let the server work out the encoding
+export const AUTO_ENCODING = "auto"
+
+// Check an encoding from a request, either "auto" or one of the supported encodings
+export function isSupportedEncoding(value: string): boolean {
+  return value === AUTO_ENCODING || SUPPORTED_ENCODINGS.some((option) => option.encoding === value)
+}
+
+// How the bytes of an uploaded file are to be read
+export interface SourceEncoding {
+  encoding: string
+  // Length of the byte order mark the file starts with, 0 when it has none
+  bomLength: number
+  // Whether the encoding was detected rather than picked
+  detected: boolean
+}
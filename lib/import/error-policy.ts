@@ -0,0 +1,19 @@
+export const ROW_ERROR_ACTIONS = ["abort", "skip", "default"] as const
+
+// What to do with a row the import cannot load as-is: fail the whole import,
+// leave the row out, or load the column default in place of each bad value
+export type RowErrorAction = (typeof ROW_ERROR_ACTIONS)[number]
+
+export interface ErrorPolicy {
+  onError: RowErrorAction
+  // Bad rows tolerated before the import fails, as a count and as a share of the rows read
+  maxErrors?: number
+  maxErrorPercent?: number
+}
+
+// Read an optional error limit from a form field: undefined when blank, NaN when not a non-negative number
+export function parseErrorLimit(value: string | undefined): number | undefined {
+  if (!value) return undefined
+  const number = Number(value)
+  return Number.isFinite(number) && number >= 0 ? number : NaN
+}
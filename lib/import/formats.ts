@@ -0,0 +1,33 @@
+// File formats an upload can be read as. JSON covers both JSON Lines and a JSON array of objects.
+export const FILE_FORMATS = ["csv", "json", "parquet", "xlsx"] as const
+
+export type FileFormat = (typeof FILE_FORMATS)[number]
+
+export const FILE_FORMAT_LABELS: Record<FileFormat, string> = {
+  csv: "CSV",
+  json: "JSON Lines or JSON array",
+  parquet: "Parquet",
+  xlsx: "Excel workbook",
+}
+
+// How nested JSON objects turn into columns: one column per leaf with a dotted name,
+// or one column per top-level key holding the object, to load as JSON, Map or Tuple
+export const NESTED_MODES = ["flatten", "keep"] as const
+
+export type NestedMode = (typeof NESTED_MODES)[number]
+
+const JSON_FILE_PATTERN = /\.(json|jsonl|ndjson)(\.(gz|zst|bz2|xz))?$/i
+const PARQUET_FILE_PATTERN = /\.parquet(\.(gz|zst|bz2|xz))?$/i
+const XLSX_FILE_PATTERN = /\.xlsx$/i
+
+// Format suggested by a file name, looking through a compression suffix
+export function formatFromFileName(name: string): FileFormat {
+  if (PARQUET_FILE_PATTERN.test(name)) return "parquet"
+  if (XLSX_FILE_PATTERN.test(name)) return "xlsx"
+  return JSON_FILE_PATTERN.test(name) ? "json" : "csv"
+}
+
+// Whether a format is text, which has an encoding and can be read as it streams in
+export function isTextFormat(format: FileFormat): boolean {
+  return format === "csv" || format === "json"
+}
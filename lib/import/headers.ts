@@ -0,0 +1,85 @@
+import { parseJsonField } from "@/lib/sql"
+
+// Rules that turn the header row of a file into column names. Empty headers are always
+// named after their position, like the columns of a file without a header row.
+export interface HeaderRules {
+  // Order Date -> order_date, OrderDate -> order_date
+  snakeCase: boolean
+  // Keep only ASCII letters, digits and underscores, with spaces becoming underscores
+  stripInvalid: boolean
+  // 2024 total -> _2024 total
+  prefixDigits: boolean
+  // value, value -> value, value_2
+  dedupe: boolean
+}
+
+export const HEADER_RULE_LABELS: Record<keyof HeaderRules, string> = {
+  snakeCase: "snake_case",
+  stripInvalid: "Strip invalid characters",
+  prefixDigits: "Prefix names starting with a digit",
+  dedupe: "Number duplicate names",
+}
+
+export const DEFAULT_HEADER_RULES: HeaderRules = {
+  snakeCase: false,
+  stripInvalid: false,
+  prefixDigits: false,
+  dedupe: true,
+}
+
+// Read header rules from a request's JSON field, filling in defaults for anything not given
+export function parseHeaderRules(json: string | undefined): HeaderRules {
+  return { ...DEFAULT_HEADER_RULES, ...(json ? (parseJsonField(json, "header rules") as object) : {}) }
+}
+
+// Why header rules can't be used, or undefined when they can
+export function headerRulesError(rules: HeaderRules): string | undefined {
+  const ruleNames = Object.keys(DEFAULT_HEADER_RULES) as (keyof HeaderRules)[]
+  const invalid = ruleNames.find((rule) => typeof rules[rule] !== "boolean")
+  return invalid ? `Header rule "${invalid}" must be on or off` : undefined
+}
+
+// Letters of any script have distinct upper and lower case forms
+const isWordCharacter = (ch: string) => /[0-9_]/.test(ch) || ch.toLowerCase() !== ch.toUpperCase()
+
+function toSnakeCase(name: string): string {
+  const spaced = name.replace(/([a-z0-9])([A-Z])/g, "$1 $2").replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+  return Array.from(spaced, (ch) => (isWordCharacter(ch) ? ch : " "))
+    .join("")
+    .split(/[\s_]+/)
+    .filter((word) => word !== "")
+    .join("_")
+    .toLowerCase()
+}
+
+// Apply the rules to the names of a header row, in the order they are listed
+export function normalizeHeaders(headers: string[], rules: HeaderRules = DEFAULT_HEADER_RULES): string[] {
+  const names = headers.map((header, i) => {
+    let name = header.trim()
+    if (rules.snakeCase) name = toSnakeCase(name)
+    if (rules.stripInvalid) {
+      name = name
+        .replace(/\s+/g, "_")
+        .replace(/[^A-Za-z0-9_]/g, "")
+        .replace(/_+/g, "_")
+        .replace(/^_|_$/g, "")
+    }
+    if (rules.prefixDigits && /^[0-9]/.test(name)) name = `_${name}`
+    return name || `Column${i + 1}`
+  })
+  if (!rules.dedupe) return names
+
+  // Later copies of a name get the first number no other column has, counting the first copy as 1
+  const taken = new Set(names)
+  const seen = new Set<string>()
+  return names.map((name) => {
+    if (!seen.has(name)) {
+      seen.add(name)
+      return name
+    }
+    let n = 2
+    while (taken.has(`${name}_${n}`)) n++
+    taken.add(`${name}_${n}`)
+    return `${name}_${n}`
+  })
+}
@@ -0,0 +1,322 @@
+import { isCompositeType, unwrapType } from "@/lib/import/values"
+import { quoteIdentifier } from "@/lib/sql"
+
+// Value ranges of the integer types, used both to infer a type and to check values against one
+const INTEGER_RANGES: Record<string, [bigint, bigint]> = {
+  UInt8: [BigInt(0), BigInt(255)],
+  UInt16: [BigInt(0), BigInt(65535)],
+  UInt32: [BigInt(0), BigInt(4294967295)],
+  UInt64: [BigInt(0), BigInt("18446744073709551615")],
+  Int8: [BigInt(-128), BigInt(127)],
+  Int16: [BigInt(-32768), BigInt(32767)],
+  Int32: [BigInt(-2147483648), BigInt(2147483647)],
+  Int64: [BigInt("-9223372036854775808"), BigInt("9223372036854775807")],
+}
+
+const WIDE_INTEGER_TYPES = new Set(["Int128", "Int256", "UInt128", "UInt256"])
+
+const BOOL_VALUES = new Set(["true", "false", "1", "0", "yes", "no", "y", "n", "t", "f"])
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const INTEGER_PATTERN = /^[+-]?\d+$/
+const DECIMAL_PATTERN = /^[+-]?\d+(?:\.\d+)?$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const IPV4_PATTERN = /^(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)$/
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === ""
+}
+
+// Parse JSON text, returning undefined when it isn't valid JSON
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return undefined
+  }
+}
+
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+// Check whether a non-empty raw value can be loaded into a column of the given type
+export function valueFitsType(value: string, type: string): boolean {
+  const baseType = unwrapType(type)
+  const text = value.trim()
+
+  if (baseType in INTEGER_RANGES) {
+    if (!INTEGER_PATTERN.test(text)) return false
+    const [min, max] = INTEGER_RANGES[baseType]
+    const number = BigInt(text)
+    return number >= min && number <= max
+  }
+
+  if (WIDE_INTEGER_TYPES.has(baseType)) {
+    return INTEGER_PATTERN.test(text) && (!baseType.startsWith("U") || !text.startsWith("-"))
+  }
+
+  if (baseType === "Float32" || baseType === "Float64") {
+    return text !== "" && !Number.isNaN(Number(text))
+  }
+
+  const decimal = /^Decimal(?:\((\d+),\s*(\d+)\))?/.exec(baseType)
+  if (decimal || /^Decimal(32|64|128|256)\(/.test(baseType)) {
+    if (!DECIMAL_PATTERN.test(text)) return false
+    if (!decimal?.[1]) return true
+    const [integerPart] = text.replace(/^[+-]/, "").split(".")
+    return integerPart.replace(/^0+(?=\d)/, "").length <= Number(decimal[1]) - Number(decimal[2])
+  }
+
+  if (baseType === "Bool") {
+    return BOOL_VALUES.has(text.toLowerCase())
+  }
+
+  if (baseType === "Date" || baseType === "Date32") {
+    return DATE_PATTERN.test(text) && !Number.isNaN(Date.parse(text))
+  }
+
+  if (baseType.startsWith("DateTime")) {
+    return INTEGER_PATTERN.test(text) || !Number.isNaN(Date.parse(text))
+  }
+
+  if (baseType === "UUID") {
+    return UUID_PATTERN.test(text)
+  }
+
+  if (baseType === "IPv4") {
+    return IPV4_PATTERN.test(text)
+  }
+
+  if (isCompositeType(baseType)) {
+    const parsed = parseJson(text)
+    if (baseType.startsWith("Array")) return Array.isArray(parsed)
+    return baseType.startsWith("Tuple") ? typeof parsed === "object" && parsed !== null : isJsonObject(parsed)
+  }
+
+  const fixedString = /^FixedString\((\d+)\)$/.exec(baseType)
+  if (fixedString) {
+    return new TextEncoder().encode(value).length <= Number(fixedString[1])
+  }
+
+  // Strings and the composite types accept any text at this level
+  return true
+}
+
+// Share of non-empty values allowed to break a type before inference falls back to String
+const MAX_VIOLATION_RATIO = 0.05
+
+// Number of values that break the chosen type listed per column
+const MAX_VIOLATION_EXAMPLES = 5
+
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[ T]\d{2}:\d{2}(?::\d{2}(?:\.(\d{1,9}))?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/
+
+// Number of JSON objects kept per column to suggest Map and Tuple types from
+const MAX_NESTED_SAMPLES = 1000
+
+// Candidate type families, from most to least specific
+const FAMILIES = ["Bool", "Integer", "Decimal", "Float", "UUID", "Date", "DateTime", "DateTime64", "JSON"] as const
+
+type Family = (typeof FAMILIES)[number]
+
+// What inference concluded about one column
+export interface ColumnInference {
+  name: string
+  type: string
+  nullable: boolean
+  // Share of empty values among the rows scanned
+  nullRatio: number
+  // Share of non-empty values that fit `type`
+  confidence: number
+  rowsScanned: number
+  violationCount: number
+  // Examples of values that don't fit `type`
+  violations: string[]
+  // For a column of JSON objects, the types it can be loaded as
+  nestedTypes?: string[]
+}
+
+function isValidDate(text: string): boolean {
+  return !Number.isNaN(Date.parse(text.replace(" ", "T")))
+}
+
+// Smallest integer type that holds the range, or null when it needs more than 128 bits
+function integerTypeFor(min: bigint, max: bigint): string | null {
+  const type = Object.keys(INTEGER_RANGES).find((name) => {
+    const [low, high] = INTEGER_RANGES[name]
+    return min >= low && max <= high
+  })
+  if (type) return type
+
+  const limit = BigInt("170141183460469231731687303715884105728") // 2^127
+  if (min >= BigInt(0) && max < limit * BigInt(2)) return "UInt128"
+  if (min >= -limit && max < limit) return "Int128"
+  return null
+}
+
+// Accumulates statistics for a single column, one value at a time, so a whole file
+// can be scanned without keeping its values in memory
+export class ColumnTypeInferrer {
+  private rows = 0
+  private nulls = 0
+  private misses = new Map<Family, { count: number; examples: Set<string> }>(
+    FAMILIES.map((family) => [family, { count: 0, examples: new Set() }]),
+  )
+  private minInteger: bigint | null = null
+  private maxInteger: bigint | null = null
+  private decimalDigits = 0
+  private decimalScale = 0
+  private fractionDigits = 0
+  private nestedSamples: Record<string, unknown>[] = []
+
+  constructor(private readonly name: string) {}
+
+  add(value: unknown) {
+    this.rows++
+
+    if (isEmpty(value)) {
+      this.nulls++
+      return
+    }
+
+    const text = String(value).trim()
+    for (const family of FAMILIES) {
+      if (!this.fits(family, text)) {
+        const miss = this.misses.get(family)!
+        miss.count++
+        if (miss.examples.size < MAX_VIOLATION_EXAMPLES) miss.examples.add(text)
+      }
+    }
+  }
+
+  private fits(family: Family, text: string): boolean {
+    switch (family) {
+      case "Bool":
+        return /^(?:true|false)$/i.test(text)
+      case "Integer": {
+        if (!INTEGER_PATTERN.test(text)) return false
+        const number = BigInt(text)
+        if (this.minInteger === null || number < this.minInteger) this.minInteger = number
+        if (this.maxInteger === null || number > this.maxInteger) this.maxInteger = number
+        return true
+      }
+      case "Decimal": {
+        if (!DECIMAL_PATTERN.test(text)) return false
+        const [integerPart, fraction = ""] = text.replace(/^[+-]/, "").split(".")
+        this.decimalDigits = Math.max(this.decimalDigits, integerPart.replace(/^0+(?=\d)/, "").length)
+        this.decimalScale = Math.max(this.decimalScale, fraction.length)
+        return true
+      }
+      case "Float":
+        return !Number.isNaN(Number(text))
+      case "UUID":
+        return UUID_PATTERN.test(text)
+      case "Date":
+        return DATE_PATTERN.test(text) && isValidDate(text)
+      case "DateTime": {
+        const match = DATE_TIME_PATTERN.exec(text)
+        return !!match && !match[1] && isValidDate(text)
+      }
+      case "DateTime64": {
+        const match = DATE_TIME_PATTERN.exec(text)
+        if (!match || !isValidDate(text)) return false
+        this.fractionDigits = Math.max(this.fractionDigits, match[1]?.length ?? 0)
+        return true
+      }
+      case "JSON": {
+        if (!text.startsWith("{")) return false
+        const parsed = parseJson(text)
+        if (!isJsonObject(parsed)) return false
+        if (this.nestedSamples.length < MAX_NESTED_SAMPLES) this.nestedSamples.push(parsed)
+        return true
+      }
+    }
+  }
+
+  // The concrete ClickHouse type for a family, or null if the values don't fit any type of it
+  private typeFor(family: Family): string | null {
+    switch (family) {
+      case "Integer":
+        return this.minInteger === null || this.maxInteger === null
+          ? null
+          : integerTypeFor(this.minInteger, this.maxInteger)
+      case "Decimal": {
+        // Whole numbers are better served by an integer type
+        if (this.decimalScale === 0) return null
+        const precision = this.decimalDigits + this.decimalScale
+        return precision <= 76 ? `Decimal(${precision}, ${this.decimalScale})` : null
+      }
+      case "DateTime64":
+        return `DateTime64(${Math.max(this.fractionDigits, 3)})`
+      default:
+        return family
+    }
+  }
+
+  result(): ColumnInference {
+    const values = this.rows - this.nulls
+    const base = {
+      name: this.name,
+      nullable: this.nulls > 0,
+      nullRatio: this.rows > 0 ? this.nulls / this.rows : 0,
+      rowsScanned: this.rows,
+    }
+
+    // Prefer the most specific type every value fits, then the one with the fewest violations
+    let best: { type: string; count: number; examples: Set<string> } | null = null
+    if (values > 0) {
+      for (const family of FAMILIES) {
+        const type = this.typeFor(family)
+        const miss = this.misses.get(family)!
+        if (type && (!best || miss.count < best.count)) {
+          best = { type, ...miss }
+        }
+        if (best?.count === 0) break
+      }
+    }
+
+    if (!best || best.count / values > MAX_VIOLATION_RATIO) {
+      return { ...base, type: "String", confidence: 1, violationCount: 0, violations: [] }
+    }
+
+    return {
+      ...base,
+      type: best.type,
+      confidence: (values - best.count) / values,
+      violationCount: best.count,
+      violations: Array.from(best.examples),
+      nestedTypes: best.type === "JSON" ? nestedTypeOptions(this.nestedSamples) : undefined,
+    }
+  }
+}
+
+// Infer a column type from sample values
+export function inferColumnType(values: unknown[]): string {
+  const inferrer = new ColumnTypeInferrer("")
+  values.forEach((value) => inferrer.add(value))
+  return inferrer.result().type
+}
+
+// A JSON value as text for inference, nested values as JSON
+function jsonValueText(value: unknown): string {
+  if (value === null || value === undefined) return ""
+  return typeof value === "object" ? JSON.stringify(value) : String(value)
+}
+
+// Infer the type of JSON values, nullable where some are missing, unless nested types forbid it
+function jsonValueType(values: unknown[]): string {
+  const texts = values.map(jsonValueText)
+  const type = inferColumnType(texts)
+  return texts.some((text) => text === "") && !isCompositeType(type) ? `Nullable(${type})` : type
+}
+
+// Types a column of JSON objects can be loaded as: JSON as it is, a Map of the common value
+// type, or a named Tuple with a type per key
+export function nestedTypeOptions(objects: Record<string, unknown>[]): string[] {
+  if (objects.length === 0) return ["JSON"]
+
+  const keys = Array.from(new Set(objects.flatMap((object) => Object.keys(object))))
+  const mapType = `Map(String, ${jsonValueType(objects.flatMap((object) => Object.values(object)))})`
+  const elements = keys.map((key) => `${quoteIdentifier(key)} ${jsonValueType(objects.map((object) => object[key]))}`)
+  return keys.length > 0 ? ["JSON", mapType, `Tuple(${elements.join(", ")})`] : ["JSON", mapType]
+}
@@ -0,0 +1,159 @@
+import { EventEmitter } from "events"
+import { randomUUID } from "crypto"
+import { rm } from "fs/promises"
+import type { SchemaIssue } from "@/lib/import/schema-check"
+
+// How long a finished job stays available to late subscribers
+const FINISHED_JOB_TTL_MS = 10 * 60 * 1000
+
+// Failed jobs are kept longer, so they can still be resumed from their checkpoint
+const FAILED_JOB_TTL_MS = 24 * 60 * 60 * 1000
+
+// A snapshot of an import job, sent as-is to SSE subscribers
+export interface ImportJobState {
+  progress: number
+  rowsProcessed: number
+  batchesDone: number
+  // Rows left out, and rows loaded with column defaults in place of bad values
+  rowsRejected: number
+  rowsDefaulted: number
+  // Numbers of the batches ClickHouse dropped because they had been inserted before
+  deduplicatedBatches: number[]
+  // Problems found when checking the file against an existing table
+  issues?: SchemaIssue[]
+  // Set when the table keeps no deduplication window, so repeated batches are loaded again
+  deduplicationWarning?: string
+  complete?: boolean
+  recordCount?: number
+  tableName?: string
+  error?: string
+  // The job failed after committing batches and can continue from its checkpoint
+  resumable?: boolean
+}
+
+export interface ImportJob {
+  id: string
+  tableName: string
+  status: "running" | "complete" | "error"
+  state: ImportJobState
+  emitter: EventEmitter
+  // Reject file of the rows that could not be loaded as-is, kept until the job expires
+  rejectFile?: string
+  // Upload and checkpoint of a failed job, kept until it expires so it can be resumed
+  resumeFiles?: string[]
+  expiry?: ReturnType<typeof setTimeout>
+}
+
+// Keep the registry on globalThis so it survives module reloads in development
+const globalForJobs = globalThis as unknown as { importJobs?: Map<string, ImportJob> }
+const jobs = (globalForJobs.importJobs ??= new Map<string, ImportJob>())
+
+export function createImportJob(tableName: string): ImportJob {
+  const job: ImportJob = {
+    id: randomUUID(),
+    tableName,
+    status: "running",
+    state: {
+      progress: 0,
+      rowsProcessed: 0,
+      batchesDone: 0,
+      rowsRejected: 0,
+      rowsDefaulted: 0,
+      deduplicatedBatches: [],
+    },
+    emitter: new EventEmitter(),
+  }
+  jobs.set(job.id, job)
+  return job
+}
+
+// Register a job again to continue it from a checkpoint. It keeps its id, so the browser
+// follows it the same way, and it also works for jobs lost in a server restart.
+export function resumeImportJob(id: string, tableName: string, state: ImportJobState): ImportJob {
+  const previous = jobs.get(id)
+  if (previous?.expiry) {
+    clearTimeout(previous.expiry)
+  }
+
+  const job: ImportJob = {
+    id,
+    tableName,
+    status: "running",
+    state,
+    emitter: new EventEmitter(),
+    rejectFile: previous?.rejectFile,
+  }
+  jobs.set(job.id, job)
+  return job
+}
+
+export function getImportJob(id: string): ImportJob | undefined {
+  return jobs.get(id)
+}
+
+function publish(job: ImportJob, state: ImportJobState) {
+  job.state = state
+  job.emitter.emit("update", state)
+}
+
+function finish(job: ImportJob, status: "complete" | "error", state: ImportJobState) {
+  job.status = status
+  publish(job, state)
+  job.emitter.removeAllListeners()
+  job.expiry = setTimeout(() => expire(job), status === "error" ? FAILED_JOB_TTL_MS : FINISHED_JOB_TTL_MS)
+  job.expiry.unref()
+}
+
+// Forget a finished job and remove the files it kept on disk
+function expire(job: ImportJob) {
+  jobs.delete(job.id)
+  for (const file of [job.rejectFile, ...(job.resumeFiles ?? [])]) {
+    if (file) {
+      rm(file, { recursive: true, force: true }).catch(() => {})
+    }
+  }
+}
+
+export function updateImportJob(
+  job: ImportJob,
+  progress: Pick<
+    ImportJobState,
+    "progress" | "rowsProcessed" | "batchesDone" | "rowsRejected" | "rowsDefaulted" | "deduplicatedBatches"
+  >,
+) {
+  publish(job, { ...job.state, ...progress })
+}
+
+export function reportImportIssues(job: ImportJob, issues: SchemaIssue[]) {
+  publish(job, { ...job.state, issues })
+}
+
+export function reportDeduplicationWarning(job: ImportJob, deduplicationWarning: string) {
+  publish(job, { ...job.state, deduplicationWarning })
+}
+
+export function completeImportJob(job: ImportJob, recordCount: number) {
+  finish(job, "complete", {
+    ...job.state,
+    progress: 100,
+    complete: true,
+    recordCount,
+    tableName: job.tableName,
+  })
+}
+
+export function failImportJob(job: ImportJob, error: unknown) {
+  finish(job, "error", {
+    ...job.state,
+    error: error instanceof Error ? error.message : "An unknown error occurred",
+    resumable: !!job.resumeFiles,
+  })
+}
+
+// Listen for state changes of a running job. Returns a function that removes the listener.
+export function subscribeToImportJob(job: ImportJob, listener: (state: ImportJobState) => void) {
+  job.emitter.on("update", listener)
+  return () => {
+    job.emitter.off("update", listener)
+  }
+}
@@ -0,0 +1,357 @@
+import { createReadStream } from "fs"
+import { Transform, type Readable, type TransformCallback } from "stream"
+import { StringDecoder } from "string_decoder"
+import type { SourceEncoding } from "@/lib/import/encoding"
+import type { NestedMode } from "@/lib/import/formats"
+import { createDecodingStream, needsTranscoding } from "@/lib/import/transcode"
+
+export interface JsonOptions {
+  // Flatten nested objects into dotted column names, or keep them as JSON text in one column
+  nested: NestedMode
+  // File columns each record is laid out in, in order
+  columns?: string[]
+  // Drop records that are not valid JSON objects instead of failing, announcing each with a "skip" event
+  skipInvalidRecords?: boolean
+  // Byte offset to start reading a file at, which must be just past a record
+  start?: number
+  encoding?: SourceEncoding
+}
+
+// A JSON object from the file, in the shape of a CSV record: its values laid out in the requested
+// columns, where it ends, and its original text. `fields` holds every value by its column name.
+export interface JsonRecord {
+  record: string[]
+  info: { lines: number; bytes: number }
+  raw: string
+  fields: Record<string, string>
+}
+
+// A record that could not be read, with the line it ends on like a csv-parse error
+export class JsonRecordError extends Error {
+  constructor(
+    message: string,
+    readonly lines: number,
+  ) {
+    super(message)
+    this.name = "JsonRecordError"
+  }
+}
+
+type JsonNode =
+  | { kind: "object"; entries: [string, JsonNode][]; text: string }
+  | { kind: "array"; text: string }
+  // Numbers keep their text, so 64-bit integers don't lose precision
+  | { kind: "scalar"; value: string | null }
+
+const NUMBER_PATTERN = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y
+const WHITESPACE_PATTERN = /[ \t\r\n]*/y
+
+// A small JSON parser that keeps the source text of nested values and numbers
+class JsonParser {
+  private pos = 0
+
+  constructor(private readonly text: string) {}
+
+  private fail(message = "Unexpected character"): never {
+    throw new Error(`Invalid JSON: ${message} at position ${this.pos}`)
+  }
+
+  private skipWhitespace() {
+    WHITESPACE_PATTERN.lastIndex = this.pos
+    WHITESPACE_PATTERN.exec(this.text)
+    this.pos = WHITESPACE_PATTERN.lastIndex
+  }
+
+  parse(): JsonNode {
+    const node = this.value()
+    this.skipWhitespace()
+    if (this.pos < this.text.length) this.fail()
+    return node
+  }
+
+  private value(): JsonNode {
+    this.skipWhitespace()
+    const start = this.pos
+    const ch = this.text[this.pos]
+
+    if (ch === "{") {
+      const entries: [string, JsonNode][] = []
+      this.pos++
+      this.skipWhitespace()
+      if (this.text[this.pos] === "}") {
+        this.pos++
+      } else {
+        for (;;) {
+          this.skipWhitespace()
+          if (this.text[this.pos] !== '"') this.fail("Expected a property name")
+          const key = this.string()
+          this.skipWhitespace()
+          if (this.text[this.pos] !== ":") this.fail("Expected a colon")
+          this.pos++
+          entries.push([key, this.value()])
+          this.skipWhitespace()
+          if (this.text[this.pos] !== ",") break
+          this.pos++
+        }
+        if (this.text[this.pos] !== "}") this.fail("Expected a comma or closing brace")
+        this.pos++
+      }
+      return { kind: "object", entries, text: this.text.slice(start, this.pos) }
+    }
+
+    if (ch === "[") {
+      this.pos++
+      this.skipWhitespace()
+      if (this.text[this.pos] === "]") {
+        this.pos++
+      } else {
+        for (;;) {
+          this.value()
+          this.skipWhitespace()
+          if (this.text[this.pos] !== ",") break
+          this.pos++
+        }
+        if (this.text[this.pos] !== "]") this.fail("Expected a comma or closing bracket")
+        this.pos++
+      }
+      return { kind: "array", text: this.text.slice(start, this.pos) }
+    }
+
+    if (ch === '"') {
+      return { kind: "scalar", value: this.string() }
+    }
+
+    for (const literal of ["true", "false", "null"]) {
+      if (this.text.startsWith(literal, this.pos)) {
+        this.pos += literal.length
+        return { kind: "scalar", value: literal === "null" ? null : literal }
+      }
+    }
+
+    NUMBER_PATTERN.lastIndex = this.pos
+    const number = NUMBER_PATTERN.exec(this.text)
+    if (!number) this.fail(ch === undefined ? "Unexpected end" : "Unexpected character")
+    this.pos = NUMBER_PATTERN.lastIndex
+    return { kind: "scalar", value: number[0] }
+  }
+
+  private string(): string {
+    const start = this.pos
+    let escaped = false
+    for (this.pos++; this.pos < this.text.length; this.pos++) {
+      const ch = this.text[this.pos]
+      if (ch === "\\") {
+        escaped = true
+        this.pos++
+      } else if (ch === '"') {
+        this.pos++
+        const literal = this.text.slice(start, this.pos)
+        return escaped ? JSON.parse(literal) : literal.slice(1, -1)
+      }
+    }
+    this.fail("Unterminated string")
+  }
+}
+
+// Turn a JSON object into column values. Nested objects become dotted columns when flattening,
+// or stay JSON text in their top-level column. Arrays are always kept as JSON text.
+export function flattenJsonObject(text: string, nested: NestedMode): Record<string, string> {
+  const node = new JsonParser(text).parse()
+  if (node.kind !== "object") {
+    throw new Error("Expected a JSON object")
+  }
+
+  const fields: Record<string, string> = {}
+  const visit = (node: JsonNode, name: string, depth: number) => {
+    if (node.kind === "object" && (depth === 0 || nested === "flatten")) {
+      for (const [key, child] of node.entries) {
+        visit(child, name ? `${name}.${key}` : key, depth + 1)
+      }
+    } else {
+      fields[name] = node.kind === "scalar" ? (node.value ?? "") : node.text
+    }
+  }
+  visit(node, "", 0)
+  return fields
+}
+
+// Splits JSON Lines, or the elements of a top-level JSON array, into records as they stream in.
+// The layout is told apart by the first character: "[" starts an array, anything else a line.
+// Reading resumed past an array element starts at its "," or "]", which marks it as an array too.
+class JsonRecordStream extends Transform {
+  readonly info = { lines: 0, bytes: 0 }
+  private readonly decoder = new StringDecoder("utf8")
+  private text = ""
+  private pos = 0
+  private line = 1
+  private layout: "unknown" | "lines" | "array" = "unknown"
+  private expect: "first" | "element" | "separator" | "end" = "first"
+  // Where the scan for the end of the current array element got to
+  private scan = { index: -1, depth: 0, inString: false, escaped: false }
+
+  constructor(private readonly options: JsonOptions) {
+    super({ readableObjectMode: true })
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+    this.text += this.decoder.write(chunk)
+    this.run(false, callback)
+  }
+
+  _flush(callback: TransformCallback) {
+    this.text += this.decoder.end()
+    this.run(true, callback)
+  }
+
+  private run(final: boolean, callback: TransformCallback) {
+    try {
+      this.process(final)
+      // Drop the text already consumed
+      this.text = this.text.slice(this.pos)
+      if (this.scan.index >= 0) this.scan.index -= this.pos
+      this.pos = 0
+      callback()
+    } catch (error) {
+      callback(error as Error)
+    }
+  }
+
+  // Move past text, counting its bytes and line breaks
+  private consume(end: number) {
+    const slice = this.text.slice(this.pos, end)
+    this.info.bytes += Buffer.byteLength(slice)
+    this.line += slice.split("\n").length - 1
+    this.pos = end
+  }
+
+  private nextNonWhitespace(): number {
+    WHITESPACE_PATTERN.lastIndex = this.pos
+    WHITESPACE_PATTERN.exec(this.text)
+    return WHITESPACE_PATTERN.lastIndex < this.text.length ? WHITESPACE_PATTERN.lastIndex : -1
+  }
+
+  private emitRecord(raw: string, lines: number) {
+    this.info.lines = lines
+    try {
+      const fields = flattenJsonObject(raw, this.options.nested)
+      const record = (this.options.columns ?? []).map((column) => fields[column] ?? "")
+      this.push({ record, info: { ...this.info }, raw, fields } satisfies JsonRecord)
+    } catch (error) {
+      const recordError = new JsonRecordError(error instanceof Error ? error.message : String(error), lines)
+      if (!this.options.skipInvalidRecords) throw recordError
+      this.emit("skip", recordError, raw)
+    }
+  }
+
+  private process(final: boolean) {
+    for (;;) {
+      if (this.layout === "unknown") {
+        const first = this.nextNonWhitespace()
+        if (first < 0) return
+        const ch = this.text[first]
+        if (ch === "[") {
+          this.layout = "array"
+          this.consume(first + 1)
+        } else if (ch === "," || ch === "]") {
+          // Resumed just past an element, on the line it ended on
+          this.layout = "array"
+          this.expect = "separator"
+          this.line = 0
+        } else {
+          this.layout = "lines"
+        }
+        continue
+      }
+
+      if (this.layout === "lines") {
+        const newline = this.text.indexOf("\n", this.pos)
+        if (newline < 0 && (!final || this.pos >= this.text.length)) return
+        const end = newline < 0 ? this.text.length : newline
+        const raw = this.text.slice(this.pos, end).replace(/\r$/, "")
+        const lines = this.line
+        this.consume(newline < 0 ? end : newline + 1)
+        if (raw.trim()) this.emitRecord(raw, lines)
+        continue
+      }
+
+      const next = this.nextNonWhitespace()
+      if (next < 0) {
+        if (final && this.expect !== "end") throw new JsonRecordError("Unexpected end of the JSON array", this.line)
+        return
+      }
+      const ch = this.text[next]
+
+      if (this.expect === "end") {
+        throw new JsonRecordError("Unexpected text after the JSON array", this.line)
+      }
+      if (this.expect === "separator" || (this.expect === "first" && ch === "]")) {
+        if (ch !== "," && ch !== "]") throw new JsonRecordError(`Expected "," or "]" in the JSON array`, this.line)
+        this.consume(next + 1)
+        this.expect = ch === "," ? "element" : "end"
+        continue
+      }
+
+      const end = this.findElementEnd(next)
+      if (end < 0) {
+        if (final) throw new JsonRecordError("Unexpected end of the JSON array", this.line)
+        return
+      }
+      const raw = this.text.slice(next, end)
+      this.consume(end)
+      this.emitRecord(raw, this.line)
+      this.expect = "separator"
+    }
+  }
+
+  // Index just past the array element starting at `start`, or -1 if it isn't complete yet
+  private findElementEnd(start: number): number {
+    const scan = this.scan
+    if (scan.index < 0) {
+      Object.assign(scan, { index: start, depth: 0, inString: false, escaped: false })
+    }
+
+    for (; scan.index < this.text.length; scan.index++) {
+      const ch = this.text[scan.index]
+      if (scan.inString) {
+        if (scan.escaped) scan.escaped = false
+        else if (ch === "\\") scan.escaped = true
+        else if (ch === '"') scan.inString = false
+      } else if (ch === '"') {
+        scan.inString = true
+      } else if (ch === "{" || ch === "[") {
+        scan.depth++
+      } else if (ch === "}" || ch === "]") {
+        if (scan.depth === 0) break
+        scan.depth--
+      } else if (ch === "," && scan.depth === 0) {
+        break
+      }
+    }
+    if (scan.index >= this.text.length) return -1
+
+    // The element ends at its last non-whitespace character before the separator
+    let end = scan.index
+    while (end > start && /\s/.test(this.text[end - 1])) end--
+    scan.index = -1
+    return end
+  }
+}
+
+// Open a streaming reader of JSON Lines or a JSON array of objects, over a file on disk or a
+// stream. Like the CSV parser, records are pulled on demand and `info.bytes` counts the text read.
+export function createJsonStream(
+  input: string | Readable,
+  options: JsonOptions,
+): Transform & { info: JsonRecord["info"] } {
+  const { start = 0, encoding } = options
+  const reader = new JsonRecordStream(options)
+
+  const source = typeof input === "string" ? createReadStream(input, { start }) : input
+  source.on("error", (error: Error) => reader.destroy(error))
+  reader.on("close", () => source.destroy())
+
+  if (encoding && needsTranscoding(encoding)) {
+    return source.pipe(createDecodingStream(encoding.encoding)).pipe(reader)
+  }
+  return source.pipe(reader)
+}
@@ -0,0 +1,111 @@
+import type { ImportColumn } from "@/lib/import/ddl"
+import type { TransformStep } from "@/lib/import/transform"
+import type { DateParseFormat } from "@/lib/import/dates"
+import { SqlValidationError } from "@/lib/sql"
+
+// Where the value of a table column comes from during an import
+export type ColumnSource =
+  | { kind: "column"; column: string }
+  | { kind: "constant"; value: string }
+  | { kind: "default" }
+  // Derived values: one part of a column split on a separator, several columns
+  // joined with a separator, or a template with {column} placeholders
+  | { kind: "split"; column: string; separator: string; index: number }
+  | { kind: "concat"; columns: string[]; separator: string }
+  | { kind: "template"; template: string }
+
+export interface ColumnMapping {
+  target: string
+  source: ColumnSource
+  transforms?: TransformStep[]
+  dateFormat?: DateParseFormat
+}
+
+// A mapped table column that receives a value on insert (columns left to their default are omitted)
+export interface MappedColumn extends ImportColumn {
+  source: Exclude<ColumnSource, { kind: "default" }>
+  transforms?: TransformStep[]
+  // How the file writes the values of a Date or DateTime column
+  dateFormat?: DateParseFormat
+}
+
+// Names compare equal when they only differ in case, spaces or punctuation, e.g. "Cust ID" and "cust_id"
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "")
+}
+
+// Suggest a mapping by matching table columns to file columns with similar names
+export function suggestMapping(tableColumns: string[], sourceColumns: string[]): ColumnMapping[] {
+  return tableColumns.map((target) => {
+    const column = sourceColumns.find((source) => normalizeName(source) === normalizeName(target))
+    return { target, source: column ? { kind: "column", column } : { kind: "default" } }
+  })
+}
+
+// Transformations and date format sent with a column, kept to the shapes the import reads
+export function columnSteps(col: Pick<MappedColumn, "transforms" | "dateFormat">) {
+  return {
+    transforms: Array.isArray(col.transforms) ? col.transforms : [],
+    dateFormat: col.dateFormat
+      ? { format: String(col.dateFormat.format), timeZone: String(col.dateFormat.timeZone ?? "") }
+      : undefined,
+  }
+}
+
+// Check the shape of a mapping from a request, and that no table column is mapped twice
+export function parseMapping(input: unknown): ColumnMapping[] {
+  if (!Array.isArray(input)) {
+    throw new SqlValidationError("Column mapping must be a list")
+  }
+
+  const targets = new Set<string>()
+  for (const entry of input) {
+    if (typeof entry !== "object" || entry === null || typeof entry.target !== "string") {
+      throw new SqlValidationError("Every mapping entry must name a table column")
+    }
+    if (targets.has(entry.target)) {
+      throw new SqlValidationError(`Column "${entry.target}" is mapped more than once`)
+    }
+    targets.add(entry.target)
+  }
+
+  return input
+}
+
+// Check a mapping from a request against the target table and the file's columns
+export function resolveMapping(
+  input: unknown,
+  tableColumns: ImportColumn[],
+  sourceColumns: string[],
+): MappedColumn[] {
+  const mapped: MappedColumn[] = []
+
+  for (const { target, source, ...steps } of parseMapping(input)) {
+    const tableColumn = tableColumns.find((col) => col.name === target)
+
+    if (!tableColumn) {
+      throw new Error(`Column "${target}" does not exist in the target table`)
+    }
+
+    if (source?.kind === "column") {
+      if (!sourceColumns.includes(source.column)) {
+        throw new Error(`File column "${source.column}" mapped to "${target}" does not exist`)
+      }
+      mapped.push({ ...tableColumn, source: { kind: "column", column: source.column }, ...columnSteps(steps) })
+    } else if (source?.kind === "constant") {
+      mapped.push({
+        ...tableColumn,
+        source: { kind: "constant", value: String(source.value ?? "") },
+        ...columnSteps(steps),
+      })
+    } else if (source?.kind !== "default") {
+      throw new Error(`Invalid source for column "${target}"`)
+    }
+  }
+
+  if (mapped.length === 0) {
+    throw new Error("At least one table column must be mapped to a file column or constant")
+  }
+
+  return mapped
+}
@@ -0,0 +1,51 @@
+import * as fs from "fs/promises"
+import { createHash } from "crypto"
+import { parquetMetadata, type FileMetaData } from "hyparquet"
+
+// A Parquet file starts and ends with these bytes, the footer length coming just before the last ones
+const MAGIC = "PAR1"
+const FOOTER_TRAILER_SIZE = 8
+
+export type ParquetMetadata = FileMetaData
+
+// Read the end of a Parquet file: the Thrift-encoded footer that describes the whole file, then its length
+// and the closing magic bytes
+async function readFooter(filePath: string): Promise<Buffer> {
+  const handle = await fs.open(filePath, "r")
+  try {
+    const { size } = await handle.stat()
+    const head = Buffer.alloc(4)
+    const trailer = Buffer.alloc(FOOTER_TRAILER_SIZE)
+    await handle.read(head, 0, 4, 0)
+    if (size >= 4 + FOOTER_TRAILER_SIZE) await handle.read(trailer, 0, FOOTER_TRAILER_SIZE, size - FOOTER_TRAILER_SIZE)
+    if (head.toString("latin1") !== MAGIC || trailer.toString("latin1", 4) !== MAGIC) {
+      throw new Error("The file is not a Parquet file")
+    }
+
+    const length = trailer.readUInt32LE(0)
+    if (length > size - 4 - FOOTER_TRAILER_SIZE) {
+      throw new Error("The Parquet file is damaged: its footer is larger than the file")
+    }
+    const footer = Buffer.alloc(length + FOOTER_TRAILER_SIZE)
+    await handle.read(footer, 0, footer.length, size - footer.length)
+    return footer
+  } finally {
+    await handle.close()
+  }
+}
+
+// Read the schema and row groups of a Parquet file from its footer
+export async function readParquetMetadata(filePath: string): Promise<ParquetMetadata> {
+  const footer = await readFooter(filePath)
+  const buffer = footer.buffer.slice(footer.byteOffset, footer.byteOffset + footer.length) as ArrayBuffer
+  // Geospatial columns are loaded as they are stored, like any other binary column
+  return parquetMetadata(buffer, { geoparquet: false })
+}
+
+// SHA-256 of the footer, which records where every column chunk is, its size and its statistics
+export async function hashParquetMetadata(filePath: string): Promise<string> {
+  const footer = await readFooter(filePath)
+  return createHash("sha256")
+    .update(footer.subarray(0, -FOOTER_TRAILER_SIZE))
+    .digest("hex")
+}
@@ -0,0 +1,264 @@
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+import { brotliCompressSync, gzipSync } from "zlib"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { parquetWriteBuffer } from "hyparquet-writer"
+import type { CompressionCodec, SchemaElement } from "hyparquet"
+import { createParquetStream, parquetColumns, type ParquetOptions } from "@/lib/import/parquet"
+import { readParquetMetadata } from "@/lib/import/parquet-metadata"
+import type { SourceRecord } from "@/lib/import/records"
+
+type WriteOptions = Parameters<typeof parquetWriteBuffer>[0]
+
+let dir: string
+let fileCount = 0
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "parquet-test-"))
+})
+
+afterAll(async () => {
+  await fs.rm(dir, { recursive: true, force: true })
+})
+
+async function writeFixture(options: WriteOptions): Promise<string> {
+  const filePath = path.join(dir, `${fileCount++}.parquet`)
+  await fs.writeFile(filePath, new Uint8Array(parquetWriteBuffer(options)))
+  return filePath
+}
+
+async function readRecords(filePath: string, options: ParquetOptions = {}) {
+  const records: string[][] = []
+  for await (const { record } of createParquetStream(filePath, options) as AsyncIterable<SourceRecord>) {
+    records.push(record)
+  }
+  return records
+}
+
+const root = (children: number): SchemaElement => ({ name: "root", num_children: children })
+
+describe("Parquet types", () => {
+  let filePath: string
+
+  beforeAll(async () => {
+    filePath = await writeFixture({
+      schema: [
+        root(6),
+        {
+          name: "price",
+          type: "INT64",
+          repetition_type: "REQUIRED",
+          converted_type: "DECIMAL",
+          precision: 18,
+          scale: 4,
+        },
+        {
+          name: "total",
+          type: "FIXED_LEN_BYTE_ARRAY",
+          type_length: 16,
+          repetition_type: "OPTIONAL",
+          converted_type: "DECIMAL",
+          precision: 38,
+          scale: 10,
+        },
+        {
+          name: "utc",
+          type: "INT64",
+          repetition_type: "REQUIRED",
+          logical_type: { type: "TIMESTAMP", isAdjustedToUTC: true, unit: "MICROS" },
+        },
+        {
+          name: "local",
+          type: "INT64",
+          repetition_type: "REQUIRED",
+          logical_type: { type: "TIMESTAMP", isAdjustedToUTC: false, unit: "NANOS" },
+        },
+        { name: "day", type: "INT32", repetition_type: "OPTIONAL", converted_type: "DATE" },
+        { name: "small", type: "INT32", repetition_type: "REQUIRED", converted_type: "UINT_16" },
+      ],
+      columnData: [
+        { name: "price", data: [BigInt(-12345), BigInt("123456789012345678")] },
+        { name: "total", data: [BigInt("12345678901234567890123456789"), null] },
+        { name: "utc", data: [BigInt("1700000000123456"), BigInt(-1)] },
+        { name: "local", data: [BigInt("1700000000123456789"), BigInt(0)] },
+        { name: "day", data: [19700, null] },
+        { name: "small", data: [65535, 0] },
+      ],
+    })
+  })
+
+  it("maps the schema to ClickHouse types", async () => {
+    expect(parquetColumns(await readParquetMetadata(filePath))).toEqual([
+      { name: "price", type: "Decimal(18, 4)", nullable: false },
+      { name: "total", type: "Decimal(38, 10)", nullable: true },
+      { name: "utc", type: "DateTime64(6)", nullable: false },
+      { name: "local", type: "DateTime64(9)", nullable: false },
+      { name: "day", type: "Date32", nullable: true },
+      { name: "small", type: "UInt16", nullable: false },
+    ])
+  })
+
+  it("keeps every digit of decimals and timestamps", async () => {
+    expect(await readRecords(filePath)).toEqual([
+      [
+        "-1.2345",
+        "1234567890123456789.0123456789",
+        "2023-11-14T22:13:20.123456Z",
+        "2023-11-14T22:13:20.123456789",
+        "2023-12-09",
+        "65535",
+      ],
+      ["12345678901234.5678", "", "1969-12-31T23:59:59.999999Z", "1970-01-01T00:00:00.000000000", "", "0"],
+    ])
+  })
+})
+
+describe("Parquet nested columns", () => {
+  let filePath: string
+
+  beforeAll(async () => {
+    filePath = await writeFixture({
+      schema: [
+        root(4),
+        { name: "tags", repetition_type: "OPTIONAL", converted_type: "LIST", num_children: 1 },
+        { name: "list", repetition_type: "REPEATED", num_children: 1 },
+        { name: "element", type: "BYTE_ARRAY", repetition_type: "OPTIONAL", converted_type: "UTF8" },
+        { name: "attrs", repetition_type: "OPTIONAL", converted_type: "MAP", num_children: 1 },
+        { name: "key_value", repetition_type: "REPEATED", num_children: 2 },
+        { name: "key", type: "BYTE_ARRAY", repetition_type: "REQUIRED", converted_type: "UTF8" },
+        { name: "value", type: "INT64", repetition_type: "OPTIONAL" },
+        { name: "point", repetition_type: "OPTIONAL", num_children: 2 },
+        { name: "x", type: "DOUBLE", repetition_type: "REQUIRED" },
+        {
+          name: "amount",
+          type: "INT32",
+          repetition_type: "OPTIONAL",
+          converted_type: "DECIMAL",
+          precision: 9,
+          scale: 2,
+        },
+        { name: "scores", repetition_type: "REQUIRED", converted_type: "LIST", num_children: 1 },
+        { name: "list", repetition_type: "REPEATED", num_children: 1 },
+        { name: "element", repetition_type: "REQUIRED", num_children: 1 },
+        { name: "score", type: "INT32", repetition_type: "REQUIRED" },
+      ],
+      columnData: [
+        { name: "tags", data: [["a", null, "b"], [], null] },
+        { name: "attrs", data: [{ one: BigInt(1), big: BigInt("9007199254740993") }, { none: null }, null] },
+        { name: "point", data: [{ x: 1.5, amount: BigInt(1234) }, { x: -2, amount: null }, null] },
+        { name: "scores", data: [[{ score: 1 }, { score: 2 }], [], [{ score: 3 }]] },
+      ],
+    })
+  })
+
+  it("maps lists, maps, groups and repeated fields to nested types", async () => {
+    expect(parquetColumns(await readParquetMetadata(filePath))).toEqual([
+      { name: "tags", type: "Array(Nullable(String))", nullable: true },
+      { name: "attrs", type: "Map(String, Nullable(Int64))", nullable: true },
+      { name: "point", type: "Tuple(`x` Float64, `amount` Nullable(Decimal(9, 2)))", nullable: true },
+      { name: "scores", type: "Array(Tuple(`score` Int32))", nullable: false },
+    ])
+  })
+
+  it("writes nested values as JSON, converting the leaves inside them", async () => {
+    expect(await readRecords(filePath)).toEqual([
+      [
+        '["a",null,"b"]',
+        '{"one":1,"big":"9007199254740993"}',
+        '{"x":1.5,"amount":"12.34"}',
+        '[{"score":1},{"score":2}]',
+      ],
+      ["[]", '{"none":null}', '{"x":-2,"amount":null}', "[]"],
+      ["", "", "", '[{"score":3}]'],
+    ])
+  })
+
+  it("lays records out in the requested columns", async () => {
+    expect(await readRecords(filePath, { columns: ["scores", "tags"] })).toEqual([
+      ['[{"score":1},{"score":2}]', '["a",null,"b"]'],
+      ["[]", "[]"],
+      ['[{"score":3}]', ""],
+    ])
+  })
+
+  it("reads a range of rows", async () => {
+    expect(await readRecords(filePath, { columns: ["tags"], start: 1, end: 2 })).toEqual([["[]"]])
+  })
+})
+
+describe("Parquet encodings and codecs", () => {
+  const ROWS = 5000
+  const ids = Array.from({ length: ROWS }, (_, i) => i * 7 - 100)
+  const names = ids.map((id) => (id % 3 === 0 ? null : `name-${id % 50}`))
+  const notes = ids.map((id) => `note ${id} ${"x".repeat(Math.abs(id) % 20)}`)
+  const ratios = ids.map((id) => id / 8)
+  const flags = ids.map((id) => id % 2 === 0)
+  const expected = ids.map((id, i) => [String(id), names[i] ?? "", notes[i], String(ratios[i]), String(flags[i])])
+
+  const columns = (encodings: { ids?: string; notes?: string; ratios?: string; flags?: string } = {}) =>
+    [
+      { name: "id", data: ids, type: "INT32", encoding: encodings.ids },
+      { name: "name", data: names, type: "STRING", nullable: true },
+      { name: "note", data: notes, type: "STRING", encoding: encodings.notes },
+      { name: "ratio", data: ratios, type: "DOUBLE", encoding: encodings.ratios },
+      { name: "flag", data: flags, type: "BOOLEAN", encoding: encodings.flags },
+    ] as WriteOptions["columnData"]
+
+  it.each([
+    ["PLAIN", { ids: "PLAIN", notes: "PLAIN", ratios: "PLAIN", flags: "PLAIN" }],
+    ["dictionary", {}],
+    ["RLE booleans", { flags: "RLE" }],
+    ["DELTA_BINARY_PACKED", { ids: "DELTA_BINARY_PACKED" }],
+    ["DELTA_LENGTH_BYTE_ARRAY", { notes: "DELTA_LENGTH_BYTE_ARRAY" }],
+    ["DELTA_BYTE_ARRAY", { notes: "DELTA_BYTE_ARRAY" }],
+    ["BYTE_STREAM_SPLIT", { ratios: "BYTE_STREAM_SPLIT" }],
+  ])("reads %s pages", async (_name, encodings) => {
+    const filePath = await writeFixture({ columnData: columns(encodings), pageSize: 4096, rowGroupSize: 2000 })
+    expect(await readRecords(filePath)).toEqual(expected)
+  })
+
+  it.each([
+    ["UNCOMPRESSED", undefined],
+    ["SNAPPY", undefined],
+    ["GZIP", { GZIP: (input: Uint8Array) => new Uint8Array(gzipSync(input)) }],
+    ["BROTLI", { BROTLI: (input: Uint8Array) => new Uint8Array(brotliCompressSync(input)) }],
+  ])("reads %s column chunks", async (codec, compressors) => {
+    const filePath = await writeFixture({
+      columnData: columns(),
+      codec: codec as CompressionCodec,
+      compressors,
+      pageSize: 4096,
+      rowGroupSize: 2000,
+    })
+    expect(await readRecords(filePath)).toEqual(expected)
+  })
+
+  it("starts at a row in the middle of a row group", async () => {
+    const filePath = await writeFixture({ columnData: columns(), pageSize: 4096, rowGroupSize: 2000 })
+    expect(await readRecords(filePath, { start: 2345 })).toEqual(expected.slice(2345))
+  })
+
+  it("stops at the end row", async () => {
+    const filePath = await writeFixture({ columnData: columns(), pageSize: 4096, rowGroupSize: 2000 })
+    expect(await readRecords(filePath, { end: 100 })).toEqual(expected.slice(0, 100))
+    expect(await readRecords(filePath, { start: 1999, end: 4001 })).toEqual(expected.slice(1999, 4001))
+  })
+})
+
+describe("Parquet batches", () => {
+  const values = Array.from({ length: 25000 }, (_, i) => i)
+
+  it.each([
+    ["with", true],
+    ["without", false],
+  ])("reads row groups larger than a batch, %s a page index", async (_name, offsetIndex) => {
+    const filePath = await writeFixture({
+      columnData: [{ name: "n", data: values, type: "INT32", offsetIndex }],
+      rowGroupSize: 25000,
+      pageSize: 4096,
+    })
+    const rows = await readRecords(filePath, { start: 9999, end: 20001 })
+    expect(rows).toEqual(values.slice(9999, 20001).map((n) => [String(n)]))
+  })
+})
@@ -0,0 +1,352 @@
+import * as fs from "fs/promises"
+import { Readable } from "stream"
+import { parquetReadObjects, parquetSchema, type AsyncBuffer, type SchemaElement, type SchemaTree } from "hyparquet"
+import { compressors } from "hyparquet-compressors"
+import { quoteIdentifier } from "@/lib/sql"
+import { isCompositeType } from "@/lib/import/values"
+import { readParquetMetadata, type ParquetMetadata } from "@/lib/import/parquet-metadata"
+import type { SourceRecord } from "@/lib/import/records"
+
+export interface ParquetOptions {
+  // Top-level fields each record is laid out in, in order
+  columns?: string[]
+  // Number of rows to skip, as positions in a Parquet file count rows rather than bytes
+  start?: number
+  // Row to stop before, the end of the file when not given
+  end?: number
+}
+
+// A top-level field of the file with the ClickHouse type its values load into
+export interface ParquetColumn {
+  name: string
+  type: string
+  nullable: boolean
+}
+
+type TimeUnit = "MILLIS" | "MICROS" | "NANOS"
+
+// Number of rows decoded at a time, so memory stays flat however large the row groups are
+const BATCH_ROWS = 10000
+
+const UNITS_PER_SECOND = { MILLIS: BigInt(1e3), MICROS: BigInt(1e6), NANOS: BigInt(1e9) }
+const UNIT_DIGITS = { MILLIS: 3, MICROS: 6, NANOS: 9 }
+
+// Pages are decoded by hyparquet. Dates and INT96 timestamps are read as text; decimals and other
+// timestamps are read as stored and converted here, as hyparquet would round them.
+const PARSERS = {
+  dateFromDays: (days: number) => new Date(days * 86400000).toISOString().slice(0, 10),
+  timestampFromNanoseconds: (nanos: bigint) => formatTimestamp(nanos, "NANOS", true),
+}
+
+// The decimal or timestamp type of a leaf, from its logical type or the legacy converted type of older writers
+function decimalOf(element: SchemaElement): { precision: number; scale: number } | undefined {
+  if (element.logical_type?.type === "DECIMAL") return element.logical_type
+  if (element.converted_type === "DECIMAL") return { precision: element.precision ?? 0, scale: element.scale ?? 0 }
+  return undefined
+}
+
+function timestampOf(element: SchemaElement): { unit: TimeUnit; adjustedToUtc: boolean } | undefined {
+  const logical = element.logical_type
+  if (logical?.type === "TIMESTAMP") return { unit: logical.unit, adjustedToUtc: logical.isAdjustedToUTC }
+  if (element.converted_type === "TIMESTAMP_MILLIS") return { unit: "MILLIS", adjustedToUtc: true }
+  if (element.converted_type === "TIMESTAMP_MICROS") return { unit: "MICROS", adjustedToUtc: true }
+  return undefined
+}
+
+// The metadata to read values with: decimal and timestamp leaves lose their types, so they are read as stored
+function storedValueMetadata(metadata: ParquetMetadata): ParquetMetadata {
+  const schema = metadata.schema.map((element) =>
+    element.num_children || (!decimalOf(element) && !timestampOf(element))
+      ? element
+      : { ...element, converted_type: undefined, logical_type: undefined },
+  )
+  return { ...metadata, schema }
+}
+
+// Lists and maps as hyparquet assembles them: a LIST group holds a repeated group of one element, or is
+// the repeated element itself, and a MAP group holds a repeated group of a key and a value
+function listElement(node: SchemaTree): { repeated: SchemaTree; element: SchemaTree } | undefined {
+  const [repeated] = node.children
+  const isList =
+    node.element.converted_type === "LIST" &&
+    node.children.length === 1 &&
+    repeated.children.length <= 1 &&
+    repeated.element.repetition_type === "REPEATED"
+  if (!isList) return undefined
+  return { repeated, element: repeated.children.length === 1 ? repeated.children[0] : repeated }
+}
+
+function mapEntry(node: SchemaTree): { key: SchemaTree; value: SchemaTree } | undefined {
+  const [entries] = node.children
+  if (node.element.converted_type !== "MAP" || node.children.length !== 1 || entries.children.length !== 2) {
+    return undefined
+  }
+  const key = entries.children.find((child) => child.element.name === "key")
+  const value = entries.children.find((child) => child.element.name === "value")
+  const isMap =
+    entries.element.repetition_type === "REPEATED" &&
+    key?.element.repetition_type !== "REPEATED" &&
+    value?.element.repetition_type !== "REPEATED"
+  return isMap && key && value ? { key, value } : undefined
+}
+
+// ClickHouse type of a leaf, from its physical type and what its logical type says the values are
+function leafType(element: SchemaElement): string {
+  const decimal = decimalOf(element)
+  if (decimal) {
+    return `Decimal(${decimal.precision}, ${decimal.scale})`
+  }
+  const logical = element.logical_type
+  const converted = element.converted_type
+
+  switch (element.type) {
+    case "BOOLEAN":
+      return "Bool"
+    case "INT32":
+    case "INT64": {
+      if (logical?.type === "INTEGER") return `${logical.isSigned ? "Int" : "UInt"}${logical.bitWidth}`
+      const integer = converted?.match(/^(U?)INT_(\d+)$/)
+      if (integer) return `${integer[1] ? "UInt" : "Int"}${integer[2]}`
+      if (logical?.type === "DATE" || converted === "DATE") return "Date32"
+      const timestamp = timestampOf(element)
+      if (timestamp) return `DateTime64(${UNIT_DIGITS[timestamp.unit]})`
+      // Times of day stay a count of their unit since midnight
+      return element.type === "INT32" ? "Int32" : "Int64"
+    }
+    case "INT96":
+      return "DateTime64(9)"
+    case "FLOAT":
+      return "Float32"
+    case "DOUBLE":
+      return "Float64"
+    case "FIXED_LEN_BYTE_ARRAY":
+      if (logical?.type === "UUID") return "UUID"
+      if (logical?.type === "FLOAT16") return "Float32"
+      return `FixedString(${element.type_length})`
+    default:
+      return "String"
+  }
+}
+
+// ClickHouse type of a single value of a node, before its own repetition is applied
+function nodeType(node: SchemaTree): string {
+  if (node.children.length === 0) {
+    return leafType(node.element)
+  }
+  const list = listElement(node)
+  if (list) {
+    return `Array(${list.element === list.repeated ? nodeType(list.element) : fieldType(list.element)})`
+  }
+  const map = mapEntry(node)
+  if (map) {
+    return `Map(${nodeType(map.key)}, ${fieldType(map.value)})`
+  }
+  const fields = node.children.map((child) => `${quoteIdentifier(child.element.name)} ${fieldType(child)}`)
+  return `Tuple(${fields.join(", ")})`
+}
+
+// ClickHouse type of a field inside a nested type, which carries its own nullability
+function fieldType(node: SchemaTree): string {
+  const type = nodeType(node)
+  if (node.element.repetition_type === "REPEATED") return `Array(${type})`
+  return node.element.repetition_type === "OPTIONAL" && !isCompositeType(type) ? `Nullable(${type})` : type
+}
+
+// Columns of the file and their types, taken from the schema. Nullability of top-level fields
+// is returned apart, like inferred types; nested fields carry it in their type.
+export function parquetColumns(metadata: ParquetMetadata): ParquetColumn[] {
+  return parquetSchema(metadata).children.map((node) => ({
+    name: node.element.name,
+    type: node.element.repetition_type === "REPEATED" ? `Array(${nodeType(node)})` : nodeType(node),
+    nullable: node.element.repetition_type === "OPTIONAL",
+  }))
+}
+
+// Signed big-endian two's complement integer, as decimals are stored in byte arrays
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  let value = BigInt(0)
+  for (const byte of bytes) value = (value << BigInt(8)) | BigInt(byte)
+  return bytes.length > 0 && bytes[0] & 0x80 ? value - (BigInt(1) << BigInt(bytes.length * 8)) : value
+}
+
+function formatDecimal(unscaled: bigint, scale: number): string {
+  const negative = unscaled < BigInt(0)
+  const digits = (negative ? -unscaled : unscaled).toString().padStart(scale + 1, "0")
+  const text = scale > 0 ? `${digits.slice(0, -scale)}.${digits.slice(-scale)}` : digits
+  return negative ? `-${text}` : text
+}
+
+// ISO 8601 text of a timestamp, in UTC when the file says so and in local time otherwise
+function formatTimestamp(value: bigint, unit: TimeUnit, adjustedToUtc: boolean): string {
+  const perSecond = UNITS_PER_SECOND[unit]
+  let seconds = value / perSecond
+  let fraction = value % perSecond
+  if (fraction < BigInt(0)) {
+    fraction += perSecond
+    seconds -= BigInt(1)
+  }
+  const date = new Date(Number(seconds) * 1000).toISOString().slice(0, 19)
+  return `${date}.${fraction.toString().padStart(UNIT_DIGITS[unit], "0")}${adjustedToUtc ? "Z" : ""}`
+}
+
+// The value a leaf's stored value stands for. Decimals and timestamps become text, binary values
+// are read as UTF-8, and 64-bit integers stay bigints until they are written out.
+function convertLeaf(element: SchemaElement, value: unknown): unknown {
+  const decimal = decimalOf(element)
+  if (decimal) {
+    const unscaled = value instanceof Uint8Array ? bytesToBigInt(value) : BigInt(value as number | bigint)
+    return formatDecimal(unscaled, decimal.scale)
+  }
+  const timestamp = timestampOf(element)
+  if (timestamp) {
+    return formatTimestamp(BigInt(value as number | bigint), timestamp.unit, timestamp.adjustedToUtc)
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value.buffer, value.byteOffset, value.byteLength).toString("utf8")
+  }
+  return value
+}
+
+// Convert the leaves of a field's assembled value, following the shapes hyparquet gives lists,
+// maps and other groups. Missing values become null, or empty arrays.
+function convertField(node: SchemaTree, value: unknown): unknown {
+  if (value === null || value === undefined) {
+    return node.element.repetition_type === "REPEATED" ? [] : null
+  }
+  if (node.element.repetition_type === "REPEATED") {
+    return (value as unknown[]).map((item) => convertSingle(node, item))
+  }
+  return convertSingle(node, value)
+}
+
+function convertSingle(node: SchemaTree, value: unknown): unknown {
+  if (value === null || value === undefined) {
+    return null
+  }
+  if (node.children.length === 0) {
+    return convertLeaf(node.element, value)
+  }
+
+  const list = listElement(node)
+  if (list) {
+    const items = value as unknown[]
+    return list.element === list.repeated
+      ? items.map((item) => convertSingle(list.element, item))
+      : items.map((item) => convertField(list.element, item))
+  }
+
+  const map = mapEntry(node)
+  if (map) {
+    const entries = Object.entries(value as Record<string, unknown>)
+    return Object.fromEntries(entries.map(([key, item]) => [key, convertField(map.value, item)]))
+  }
+
+  const group = value as Record<string, unknown>
+  return Object.fromEntries(
+    node.children.map((child) => [child.element.name, convertField(child, group[child.element.name])]),
+  )
+}
+
+// Write a value out as column text: nested values as JSON, with 64-bit integers as numbers
+// when they fit and as strings when they don't
+function valueText(value: unknown): string {
+  if (value === null || value === undefined) return ""
+  if (typeof value === "string") return value
+  if (typeof value !== "object") return String(value)
+  return JSON.stringify(value, (_key, item: unknown) => {
+    if (typeof item !== "bigint") return item
+    const isSafe = item >= BigInt(Number.MIN_SAFE_INTEGER) && item <= BigInt(Number.MAX_SAFE_INTEGER)
+    return isSafe ? Number(item) : String(item)
+  })
+}
+
+// A Parquet file on disk, read by byte range. The ranges read for a batch are kept until the next one is read,
+// as batches of a row group read the same column chunks from files without a page index.
+function fileBuffer(handle: fs.FileHandle, byteLength: number): AsyncBuffer & { nextBatch(): void } {
+  let previous = new Map<string, ArrayBuffer>()
+  let current = new Map<string, ArrayBuffer>()
+  return {
+    byteLength,
+    async slice(start, end = byteLength) {
+      const key = `${start}-${end}`
+      let buffer = current.get(key) ?? previous.get(key)
+      if (!buffer) {
+        const bytes = new Uint8Array(end - start)
+        await handle.read(bytes, 0, bytes.length, start)
+        buffer = bytes.buffer
+      }
+      current.set(key, buffer)
+      return buffer
+    },
+    nextBatch() {
+      previous = current
+      current = new Map()
+    },
+  }
+}
+
+// Whether a top-level field is a plain column, which hyparquet stops decoding at the end of a batch.
+// Lists, maps and groups are decoded a whole column chunk at a time.
+function isFlatField(node: SchemaTree): boolean {
+  return node.children.length === 0 && node.element.repetition_type !== "REPEATED"
+}
+
+// Stream the rows of a Parquet file on disk, one batch of rows at a time, or one row group at a time when
+// nested fields are read. Records have the shape of CSV records, with `info.bytes` and `info.lines` both
+// counting rows.
+export function createParquetStream(
+  filePath: string,
+  options: ParquetOptions,
+): Readable & { info: SourceRecord["info"] } {
+  const { columns, start = 0 } = options
+  const info = { lines: 0, bytes: 0 }
+
+  async function* readRows(): AsyncGenerator<SourceRecord> {
+    const metadata = await readParquetMetadata(filePath)
+    const readMetadata = storedValueMetadata(metadata)
+    const nodes = parquetSchema(metadata).children.filter((node) => !columns || columns.includes(node.element.name))
+    const names = nodes.map((node) => node.element.name)
+    const batchRows = nodes.every(isFlatField) ? BATCH_ROWS : Infinity
+    const end = Math.min(options.end ?? Infinity, Number(metadata.num_rows))
+    const handle = await fs.open(filePath, "r")
+    try {
+      const file = fileBuffer(handle, (await handle.stat()).size)
+      let firstRow = 0
+      for (const rowGroup of metadata.row_groups) {
+        // Row groups before the start are not read at all, and batches don't cross row groups
+        const nextRow = Math.min(firstRow + Number(rowGroup.num_rows), end)
+        for (let rowStart = Math.max(start, firstRow); rowStart < nextRow; rowStart += batchRows) {
+          const rows = await parquetReadObjects({
+            file,
+            metadata: readMetadata,
+            columns: names,
+            rowStart,
+            rowEnd: Math.min(rowStart + batchRows, nextRow),
+            // Only the pages of the batch are read when the file has a page index
+            useOffsetIndex: true,
+            compressors,
+            parsers: PARSERS,
+            // Binary columns that aren't marked as text are decoded here, as are decimals stored as bytes
+            utf8: false,
+          })
+          file.nextBatch()
+          for (const row of rows) {
+            info.lines++
+            info.bytes++
+            const values = Object.fromEntries(
+              nodes.map((node, i) => [names[i], valueText(convertField(node, row[names[i]]))]),
+            )
+            const record = (columns ?? names).map((column) => values[column] ?? "")
+            yield { record, info: { ...info }, raw: JSON.stringify(values), fields: values }
+          }
+        }
+        if (nextRow >= end) break
+        firstRow = nextRow
+      }
+    } finally {
+      await handle.close()
+    }
+  }
+
+  return Object.assign(Readable.from(readRows()), { info })
+}
@@ -0,0 +1,465 @@
+import { Readable } from "stream"
+import { createHash } from "crypto"
+import type { ClickHouseClient } from "@clickhouse/client"
+import { findLeadingLinesEnd, recordStartLine, resolveDelimiter } from "@/lib/import/csv"
+import type { CsvDialect } from "@/lib/import/csv-dialect"
+import type { HeaderRules } from "@/lib/import/headers"
+import {
+  createRecordStream,
+  hasHeaderRecord,
+  readSourceColumns,
+  readSampleRows,
+  type RecordOptions,
+  type SourceRecord,
+} from "@/lib/import/records"
+import { isTextFormat, type FileFormat, type NestedMode } from "@/lib/import/formats"
+import { removeUpload, type SpooledFile } from "@/lib/import/upload"
+import { serializeValue, unwrapType } from "@/lib/import/values"
+import { valueFitsType } from "@/lib/import/infer"
+import type { TableOptions, WriteMode } from "@/lib/import/ddl"
+import {
+  prepareTargetTable,
+  prepareStagingTable,
+  swapStagingTable,
+  stagingTableName,
+  dropTable,
+  deduplicatesInserts,
+  tableExists,
+  describeTable,
+} from "@/lib/import/target"
+import { resolveMapping, type ColumnMapping, type MappedColumn } from "@/lib/import/mapping"
+import { quoteIdentifier } from "@/lib/sql"
+import { checkSchema } from "@/lib/import/schema-check"
+import type { ErrorPolicy } from "@/lib/import/error-policy"
+import { RejectFile } from "@/lib/import/rejects"
+import { createColumnReader, referencedColumns } from "@/lib/import/transform"
+import { resolveEncoding, needsExtraction, extractFile } from "@/lib/import/transcode"
+import { detectCompression } from "@/lib/import/compression"
+import { hashParquetMetadata, readParquetMetadata } from "@/lib/import/parquet-metadata"
+import { countSheetRows, hashWorkbook } from "@/lib/import/xlsx"
+import {
+  type ImportCheckpoint,
+  saveCheckpoint,
+  loadCheckpoint,
+  removeCheckpoint,
+  checkpointPath,
+  hashFileRange,
+} from "@/lib/import/checkpoint"
+import {
+  type ImportJob,
+  updateImportJob,
+  reportImportIssues,
+  reportDeduplicationWarning,
+  completeImportJob,
+  failImportJob,
+} from "@/lib/import/jobs"
+
+// Number of rows sent to ClickHouse per INSERT
+const BATCH_SIZE = 1000
+
+// Number of rows checked against an existing table's schema before loading
+const SCHEMA_CHECK_ROWS = 1000
+
+// Everything an import needs apart from the connection. Saved with its checkpoints,
+// so an interrupted import can be resumed from the same upload.
+export interface ImportSettings {
+  // Temporary directory of the upload, removed once the import no longer needs it
+  uploadDir: string
+  file: SpooledFile
+  // Encoding of the file, or "auto" to detect it
+  encoding: string
+  // Member of a zip archive to load, the first text file when not given
+  member?: string
+  format: FileFormat
+  // How CSV files are split into columns, with "auto" to detect the delimiter
+  delimiter: string
+  hasHeader: boolean
+  dialect: CsvDialect
+  // How the names in a header row become column names
+  headerRules: HeaderRules
+  // How nested objects in JSON files become columns
+  nested: NestedMode
+  // Sheet of a workbook to load, its cells in A1 notation and the row holding the column names
+  sheet?: string
+  range?: string
+  headerRow?: number
+  tableName: string
+  // Columns to create and load, each with its source in the file and its transformations
+  columns: MappedColumn[]
+  tableOptions: TableOptions
+  // CREATE TABLE statement edited before the import, run instead of the one built from the columns and options
+  createTableQuery?: string
+  writeMode: WriteMode
+  // Load a full refresh (truncate or replace) into a staging table, then swap it in for the live table
+  staging: boolean
+  // Load into an existing table through an explicit column mapping instead of by column name
+  mapping?: ColumnMapping[]
+  errorPolicy: ErrorPolicy
+}
+
+export interface ImportOptions extends ImportSettings {
+  client: ClickHouseClient
+  // Continue from this checkpoint instead of starting over
+  checkpoint?: ImportCheckpoint
+}
+
+// Run an import to completion, reporting progress and the final outcome on the job
+export async function runImport(job: ImportJob, options: ImportOptions) {
+  try {
+    const recordCount = await importFile(job, options)
+    await removeCheckpoint(job.id)
+    await removeUpload({ tempDir: options.uploadDir })
+    completeImportJob(job, recordCount)
+  } catch (error) {
+    console.error("Error importing to ClickHouse:", error)
+
+    // A staged import drops what it loaded and leaves the live table as it was, so there is nothing to resume
+    if (options.staging) {
+      await dropTable(options.client, stagingTableName(options.tableName, job.id)).catch((dropError) =>
+        console.error("Error dropping staging table:", dropError),
+      )
+      await removeCheckpoint(job.id)
+    }
+
+    // Once the table is prepared, keep the upload and checkpoint so the import can be resumed
+    if (await loadCheckpoint(job.id)) {
+      job.resumeFiles = [options.uploadDir, checkpointPath(job.id)]
+    } else {
+      await removeUpload({ tempDir: options.uploadDir })
+    }
+    failImportJob(job, error)
+  } finally {
+    await options.client.close()
+  }
+}
+
+async function importFile(job: ImportJob, options: ImportOptions) {
+  const { client, checkpoint, ...requestedSettings } = options
+
+  // Compressed files and files that aren't plain UTF-8 are extracted once before anything else
+  // reads them, so checkpoint offsets point into plain text. A checkpoint refers to the copy already.
+  // Parquet files have no encoding and are only decompressed. Workbooks are zip archives of their own.
+  let settings = requestedSettings
+  if (!checkpoint && settings.format !== "xlsx") {
+    const compression = await detectCompression(settings.file.path, settings.member)
+    const encoding = isTextFormat(settings.format)
+      ? await resolveEncoding(settings.file.path, settings.encoding, compression)
+      : undefined
+    if (needsExtraction(compression, encoding)) {
+      settings = { ...settings, file: await extractFile(settings.file, compression, encoding) }
+    }
+  }
+  // Once extracted the file is plain UTF-8, so the delimiter is detected from it directly
+  if (!checkpoint && settings.format === "csv") {
+    const { file, delimiter, dialect } = settings
+    settings = { ...settings, delimiter: await resolveDelimiter(file.path, delimiter, dialect) }
+  }
+
+  const { file, format, delimiter, hasHeader, dialect, headerRules, nested, sheet, range, headerRow } = settings
+  const { tableName, writeMode, errorPolicy, staging } = settings
+  // Rows go to the staging table until it is swapped in at the end
+  const loadTable = staging ? stagingTableName(tableName, job.id) : tableName
+  const sheetOptions = { sheet, range, headerRow }
+  const fileOptions = { format, nested, delimiter, hasHeader, headerRules, ...dialect, ...sheetOptions }
+  const sourceColumns = await readSourceColumns(file.path, fileOptions)
+
+  // JSON columns are learned from the first records, so keys that only show up further
+  // into the file are added when a column asks for them
+  if (format === "json") {
+    const sources = options.mapping?.map((entry) => entry.source) ?? options.columns.map((col) => col.source)
+    for (const column of sources.flatMap(referencedColumns)) {
+      if (!sourceColumns.includes(column)) sourceColumns.push(column)
+    }
+  }
+  const readOptions: RecordOptions = { ...fileOptions, columns: sourceColumns }
+  const tableColumns = (await tableExists(client, tableName)) ? await describeTable(client, tableName) : null
+
+  // Offsets into a Parquet file or a sheet count rows, so their batches are checked through the file's
+  // metadata rather than their bytes, and progress is the share of their rows read
+  const hashBatch = (start: number, end: number) => {
+    if (format === "parquet") return hashParquetMetadata(file.path)
+    if (format === "xlsx") return hashWorkbook(file.path)
+    return hashFileRange(file.path, start, end)
+  }
+  let totalSize = file.size
+  if (format === "parquet") totalSize = Number((await readParquetMetadata(file.path)).num_rows)
+  if (format === "xlsx") totalSize = await countSheetRows(file.path, readOptions)
+
+  // Work out which file column (or constant) feeds each table column
+  let targetColumns: MappedColumn[]
+
+  if (options.mapping) {
+    if (!tableColumns) {
+      throw new Error(`Table ${tableName} does not exist`)
+    }
+    targetColumns = resolveMapping(options.mapping, tableColumns, sourceColumns)
+  } else {
+    targetColumns = options.columns
+  }
+
+  // Resolve every source and transformation up front, so a bad mapping fails before the table is touched
+  const readers = targetColumns.map((col) => {
+    if (col.source.kind === "constant") {
+      serializeValue(col.source.value, col.type)
+    }
+    return createColumnReader(col, sourceColumns)
+  })
+
+  // When loading into the existing table, check the file against its schema before anything is changed.
+  // A resumed import has done this already, and its table must not be truncated or replaced again.
+  if (!checkpoint && tableColumns && (writeMode === "append" || writeMode === "truncate")) {
+    const sample = await readSampleRows(file.path, readOptions, SCHEMA_CHECK_ROWS)
+    const issues = checkSchema({ tableColumns, targetColumns, sourceColumns, readers, sample })
+    reportImportIssues(job, issues)
+
+    const errors = issues.filter((issue) => issue.severity === "error")
+    if (errors.length > 0) {
+      throw new Error(`The file does not match table ${tableName}: ${errors.map((issue) => issue.message).join("; ")}`)
+    }
+  }
+
+  // Create, truncate or replace the table as the write mode asks, or create the staging table
+  if (!checkpoint) {
+    if (staging) {
+      await prepareStagingTable(client, { ...options, columns: targetColumns }, loadTable)
+    } else {
+      await prepareTargetTable(client, { ...options, columns: targetColumns })
+    }
+    await saveCheckpoint({ jobId: job.id, settings, position: null })
+  }
+
+  // The deduplication tokens only take effect if the table keeps a deduplication window. Tables created
+  // by the import do, existing tables and tables from an edited statement may not.
+  if (!(await deduplicatesInserts(client, loadTable))) {
+    reportDeduplicationWarning(
+      job,
+      writeMode === "append"
+        ? `Table ${tableName} does not deduplicate inserts, so running this import again loads its rows twice`
+        : `Table ${tableName} does not deduplicate inserts, so a batch sent again on resuming may be loaded twice`,
+    )
+  }
+
+  // Make sure the upload is still the file the checkpoint was taken from
+  const resumeFrom = checkpoint?.position ?? null
+  if (resumeFrom) {
+    const batchHash = await hashBatch(resumeFrom.batchStart, resumeFrom.offset)
+    if (batchHash !== resumeFrom.batchHash) {
+      throw new Error("The uploaded file no longer matches the checkpoint of this import")
+    }
+  }
+
+  // Each value is converted according to its column type, never concatenated into SQL.
+  // Values the column cannot hold are left out of the row and reported as problems.
+  const toRow = (record: string[]) => {
+    const row: Record<string, unknown> = {}
+    const problems: string[] = []
+    targetColumns.forEach((col, i) => {
+      try {
+        const value = readers[i](record)
+        if (value && !valueFitsType(value, col.type)) {
+          throw new Error(`Value "${value}" is not a valid ${unwrapType(col.type)}`)
+        }
+        row[col.name] = serializeValue(value, col.type)
+      } catch (error) {
+        problems.push(`${col.name}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    })
+    return { row, problems }
+  }
+
+  // Every batch carries a deduplication token, so ClickHouse drops a batch it has seen before
+  // instead of inserting it twice. Appends are keyed on the file and the settings that shape
+  // its rows, which also covers running the same import again. When the table was emptied
+  // or created for this import, the job id is added, so only retries within the job dedupe.
+  const tokenPrefix = createHash("sha256")
+    .update(
+      JSON.stringify({
+        file: file.sha256,
+        targetColumns,
+        format,
+        delimiter,
+        hasHeader,
+        dialect,
+        headerRules,
+        nested,
+        ...sheetOptions,
+        errorPolicy,
+        job: writeMode === "append" ? null : job.id,
+      }),
+    )
+    .digest("hex")
+
+  // Insert a batch of rows through the native insert API. Returns false when
+  // ClickHouse dropped the batch as a duplicate.
+  const insertBatch = async (batch: Record<string, unknown>[], batchNumber: number) => {
+    const { summary } = await client.insert({
+      table: quoteIdentifier(loadTable),
+      values: Readable.from(batch),
+      format: "JSONEachRow",
+      columns: targetColumns.map((col) => quoteIdentifier(col.name)) as [string, ...string[]],
+      clickhouse_settings: {
+        date_time_input_format: "best_effort",
+        insert_deduplication_token: `${tokenPrefix}-${batchNumber}`,
+      },
+    })
+    return summary?.written_rows !== "0"
+  }
+
+  // Parse the file as a stream and insert in batches. The parser is only read
+  // while the previous batch is not in flight, which keeps memory use flat.
+  // Unless the policy is to abort, records the parser cannot read are skipped.
+  // A resumed import starts reading just past the last committed batch, a new one past the lines
+  // of a CSV file that are skipped.
+  const leadingLines =
+    format === "csv" ? await findLeadingLinesEnd(file.path, dialect.skipLeadingLines) : { bytes: 0, lines: 0 }
+  const startOffset = resumeFrom?.offset ?? leadingLines.bytes
+  const startLine = resumeFrom?.line ?? leadingLines.lines
+  const parser = createRecordStream(file.path, {
+    ...readOptions,
+    skipInvalidRecords: errorPolicy.onError !== "abort",
+    start: startOffset,
+  })
+  const rejects = new RejectFile(job.id)
+  if (resumeFrom) {
+    await rejects.resume(resumeFrom.rejectCount, resumeFrom.rejectBytes)
+  }
+
+  let skipHeader = hasHeaderRecord(readOptions) && !resumeFrom
+  let batch: Record<string, unknown>[] = []
+  let rowsRead = resumeFrom?.rowsRead ?? 0
+  let rowsProcessed = resumeFrom?.rowsProcessed ?? 0
+  let batchesDone = resumeFrom?.batchesDone ?? 0
+  let rowsDefaulted = resumeFrom?.rowsDefaulted ?? 0
+  const deduplicatedBatches = resumeFrom?.deduplicatedBatches ?? []
+  // Position just past the last record read, and where the batch being filled started
+  let offset = startOffset
+  let line = startLine
+  let batchStart = startOffset
+
+  // Fail once there are more bad rows than the policy tolerates. The percentage is only
+  // checked per batch and at the end, so a few bad rows at the start of a file don't trip it.
+  const checkErrorCount = () => {
+    const { maxErrors } = errorPolicy
+    if (maxErrors !== undefined && rejects.count > maxErrors) {
+      throw new Error(`Too many bad rows: ${rejects.count} exceeds the limit of ${maxErrors}`)
+    }
+  }
+
+  const checkErrorPercent = () => {
+    const { maxErrorPercent } = errorPolicy
+    if (maxErrorPercent !== undefined && rowsRead > 0 && (rejects.count / rowsRead) * 100 > maxErrorPercent) {
+      throw new Error(`Too many bad rows: ${rejects.count} of ${rowsRead} exceeds the limit of ${maxErrorPercent}%`)
+    }
+  }
+
+  parser.on("skip", (error: { message: string; lines: number }, raw?: string) => {
+    rowsRead++
+    rejects.add(recordStartLine(startLine + error.lines, raw ?? ""), error.message, raw ?? "")
+  })
+
+  // Progress is the share of the file consumed so far, in the units of its offsets
+  const progressAt = (position: number) =>
+    totalSize > 0 ? Math.min(99, Math.round((position / totalSize) * 100)) : 0
+
+  const publishProgress = () => {
+    const rowsRejected = rejects.count - rowsDefaulted
+    updateImportJob(job, {
+      progress: progressAt(startOffset + parser.info.bytes),
+      rowsProcessed,
+      batchesDone,
+      rowsRejected,
+      rowsDefaulted,
+      deduplicatedBatches: [...deduplicatedBatches],
+    })
+  }
+
+  // Insert the batch, then record a checkpoint for it
+  const flush = async () => {
+    const batchNumber = batchesDone + 1
+    if (await insertBatch(batch, batchNumber)) {
+      rowsProcessed += batch.length
+    } else {
+      deduplicatedBatches.push(batchNumber)
+    }
+    batchesDone++
+    batch = []
+
+    await saveCheckpoint({
+      jobId: job.id,
+      settings,
+      position: {
+        offset,
+        line,
+        rowsRead,
+        rowsProcessed,
+        batchesDone,
+        rowsDefaulted,
+        deduplicatedBatches,
+        rejectCount: rejects.count,
+        rejectBytes: rejects.bytes,
+        progress: progressAt(offset),
+        batchStart,
+        batchHash: await hashBatch(batchStart, offset),
+      },
+    })
+    batchStart = offset
+    publishProgress()
+  }
+
+  try {
+    for await (const { record, info, raw } of parser as AsyncIterable<SourceRecord>) {
+      offset = startOffset + info.bytes
+      line = startLine + info.lines
+
+      if (skipHeader) {
+        skipHeader = false
+        continue
+      }
+
+      rowsRead++
+      const { row, problems } = toRow(record)
+
+      if (problems.length > 0) {
+        const recordLine = recordStartLine(line, raw)
+        if (errorPolicy.onError === "abort") {
+          throw new Error(`Line ${recordLine}: ${problems.join("; ")}`)
+        }
+
+        rejects.add(recordLine, problems.join("; "), raw)
+        if (errorPolicy.onError === "default") {
+          rowsDefaulted++
+          batch.push(row)
+        }
+      } else {
+        batch.push(row)
+      }
+
+      // Records skipped by the parser are counted too
+      checkErrorCount()
+
+      if (batch.length >= BATCH_SIZE) {
+        checkErrorPercent()
+        await flush()
+      }
+    }
+
+    checkErrorCount()
+    checkErrorPercent()
+    if (batch.length > 0) {
+      await flush()
+    }
+  } finally {
+    // Keep the rejected rows available for download, also when the import failed
+    await rejects.close()
+    if (rejects.count > 0) {
+      job.rejectFile = rejects.path
+      publishProgress()
+    }
+  }
+
+  if (staging) {
+    await swapStagingTable(client, tableName, loadTable, rowsProcessed)
+  }
+
+  return rowsProcessed
+}
@@ -0,0 +1,93 @@
+import type { Readable } from "stream"
+import { createCsvStream, sourceColumnNames, type CsvOptions, type CsvRecord } from "@/lib/import/csv"
+import { createJsonStream } from "@/lib/import/json"
+import { createParquetStream, parquetColumns } from "@/lib/import/parquet"
+import { readParquetMetadata } from "@/lib/import/parquet-metadata"
+import { createXlsxStream } from "@/lib/import/xlsx"
+import type { FileFormat, NestedMode } from "@/lib/import/formats"
+import type { HeaderRules } from "@/lib/import/headers"
+
+// Number of JSON records scanned for the keys that make up the file's columns
+const JSON_COLUMN_SCAN_ROWS = 1000
+
+export interface RecordOptions extends CsvOptions {
+  format: FileFormat
+  nested: NestedMode
+  // File columns JSON and Parquet records are laid out in, CSV records keep the file's own order
+  columns?: string[]
+  // Sheet of a workbook, the cells to read and the row holding the column names
+  sheet?: string
+  range?: string
+  headerRow?: number
+  // How the names in a header row become column names
+  headerRules?: HeaderRules
+}
+
+// A record from any reader. JSON and Parquet records also hold their values by column name.
+export type SourceRecord = CsvRecord & { fields?: Record<string, string> }
+
+// A stream of `SourceRecord`s that tracks how much of its input it has read
+export type RecordStream = Readable & { info: { bytes: number } }
+
+// Open a streaming reader for the file's format. All readers yield records of the same shape
+// and resume from an offset: a byte offset into text, or a record number into a Parquet file or sheet.
+// The text readers also announce records they drop with a "skip" event.
+export function createRecordStream(input: string | Readable, options: RecordOptions): RecordStream {
+  switch (options.format) {
+    case "json":
+      return createJsonStream(input, options)
+    case "parquet":
+      // The metadata of a Parquet file is at its end, so it is read from disk
+      if (typeof input !== "string") {
+        throw new Error("Parquet files can only be read from disk")
+      }
+      return createParquetStream(input, options)
+    case "xlsx":
+      // So is a workbook, which is a zip archive
+      if (typeof input !== "string") {
+        throw new Error("Excel workbooks can only be read from disk")
+      }
+      return createXlsxStream(input, options)
+    default:
+      return createCsvStream(input, options)
+  }
+}
+
+// Whether the first record of the file holds the column names
+export function hasHeaderRecord(options: RecordOptions): boolean {
+  return (options.format === "csv" || options.format === "xlsx") && options.hasHeader
+}
+
+// Read up to `limit` data rows from the start of a file, skipping the header row
+export async function readSampleRows(filePath: string, options: RecordOptions, limit: number): Promise<string[][]> {
+  const rows: string[][] = []
+  let skipHeader = hasHeaderRecord(options)
+  for await (const { record } of createRecordStream(filePath, options) as AsyncIterable<SourceRecord>) {
+    if (skipHeader) {
+      skipHeader = false
+      continue
+    }
+    if (rows.length >= limit) break
+    rows.push(record)
+  }
+  return rows
+}
+
+// Learn the column names of a file: from its first record for CSV and sheets, from the keys of the
+// first JSON records in the order they first appear, or from the schema of a Parquet file
+export async function readSourceColumns(filePath: string, options: RecordOptions): Promise<string[]> {
+  if (options.format === "parquet") {
+    return parquetColumns(await readParquetMetadata(filePath)).map((column) => column.name)
+  }
+
+  const columns = new Set<string>()
+  let scanned = 0
+  for await (const { record, fields } of createRecordStream(filePath, options) as AsyncIterable<SourceRecord>) {
+    if (!fields) {
+      return sourceColumnNames(record, options.hasHeader, options.headerRules)
+    }
+    Object.keys(fields).forEach((key) => columns.add(key))
+    if (++scanned >= JSON_COLUMN_SCAN_ROWS) break
+  }
+  return Array.from(columns)
+}
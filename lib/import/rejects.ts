@@ -0,0 +1,57 @@
+import { createWriteStream, type WriteStream } from "fs"
+import * as fs from "fs/promises"
+import { finished } from "stream/promises"
+import * as path from "path"
+import * as os from "os"
+
+// Quote a CSV field when it holds a delimiter, a quote or a line break
+function csvField(value: string | number): string {
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// Rows an import could not load as-is, written as CSV with the line number of each row
+// in the source file, the reason and the original record. The file is only created
+// once the first row is added.
+export class RejectFile {
+  readonly path: string
+  private stream: WriteStream | null = null
+  private resumed = false
+  count = 0
+  bytes = 0
+
+  constructor(jobId: string) {
+    this.path = path.join(os.tmpdir(), `import-rejects-${jobId}.csv`)
+  }
+
+  // Continue a reject file written up to `bytes` by an earlier run of the same job,
+  // dropping whatever it wrote past that point
+  async resume(count: number, bytes: number) {
+    if (count === 0) return
+    await fs.truncate(this.path, bytes)
+    this.count = count
+    this.bytes = bytes
+    this.resumed = true
+  }
+
+  add(line: number, reason: string, raw: string) {
+    if (!this.stream) {
+      this.stream = createWriteStream(this.path, { flags: this.resumed ? "a" : "w" })
+      if (!this.resumed) this.write("line,reason,record\n")
+    }
+    this.count++
+    this.write(`${line},${csvField(reason)},${csvField(raw.replace(/\r?\n$/, ""))}\n`)
+  }
+
+  private write(text: string) {
+    this.stream!.write(text)
+    this.bytes += Buffer.byteLength(text)
+  }
+
+  async close() {
+    if (this.stream) {
+      this.stream.end()
+      await finished(this.stream)
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import type { TableColumn } from "@/lib/import/target"
+import type { MappedColumn } from "@/lib/import/mapping"
+import { inferColumnType, valueFitsType } from "@/lib/import/infer"
+import { referencedColumns } from "@/lib/import/transform"
+
+// Number of example values listed for a type mismatch
+const MAX_EXAMPLES = 5
+
+export interface SchemaIssue {
+  kind: "type_mismatch" | "missing_column" | "extra_column"
+  // Errors stop the import, warnings are only reported
+  severity: "error" | "warning"
+  column: string
+  message: string
+  examples?: string[]
+}
+
+export interface SchemaCheckInput {
+  tableColumns: TableColumn[]
+  targetColumns: MappedColumn[]
+  sourceColumns: string[]
+  // Value readers of the target columns, in the same order
+  readers: ((record: string[]) => string)[]
+  // Sample of data rows from the start of the file
+  sample: string[][]
+}
+
+// Compare the columns going into an existing table with its declared schema
+export function checkSchema(input: SchemaCheckInput): SchemaIssue[] {
+  const { tableColumns, targetColumns, sourceColumns, readers, sample } = input
+  const issues: SchemaIssue[] = []
+
+  for (const [i, target] of targetColumns.entries()) {
+    const tableColumn = tableColumns.find((col) => col.name === target.name)
+
+    if (!tableColumn) {
+      issues.push({
+        kind: "extra_column",
+        severity: "error",
+        column: target.name,
+        message: `Column ${target.name} does not exist in the table`,
+      })
+      continue
+    }
+
+    // Values as they will be loaded, after transformations
+    // Values a transformation or date format rejects count as bad values
+    const values: string[] = []
+    const badValues: string[] = []
+    for (const row of target.source.kind === "constant" ? [[]] : sample) {
+      try {
+        const value = readers[i](row)
+        values.push(value)
+        if (value && !valueFitsType(value, tableColumn.type)) badValues.push(value)
+      } catch (error) {
+        badValues.push(error instanceof Error ? error.message : String(error))
+      }
+    }
+
+    if (badValues.length > 0) {
+      issues.push({
+        kind: "type_mismatch",
+        severity: "error",
+        column: target.name,
+        message: `Column ${target.name} is ${tableColumn.type} but the file looks like ${inferColumnType(values)}`,
+        examples: Array.from(new Set(badValues)).slice(0, MAX_EXAMPLES),
+      })
+    }
+  }
+
+  // Table columns that get no value fall back to their default, which is rarely intended
+  // for non-nullable columns without an explicit DEFAULT expression
+  for (const tableColumn of tableColumns) {
+    const isFilled = targetColumns.some((col) => col.name === tableColumn.name)
+    const hasDefault = tableColumn.defaultType !== "" || tableColumn.type.startsWith("Nullable(")
+
+    if (!isFilled && !hasDefault) {
+      issues.push({
+        kind: "missing_column",
+        severity: "warning",
+        column: tableColumn.name,
+        message: `Non-nullable column ${tableColumn.name} gets no value from the file and will be filled with the type's default`,
+      })
+    }
+  }
+
+  // File columns that don't feed any table column are skipped
+  const usedSources = new Set(targetColumns.flatMap((col) => referencedColumns(col.source)))
+  for (const source of sourceColumns) {
+    if (!usedSources.has(source)) {
+      issues.push({
+        kind: "extra_column",
+        severity: "warning",
+        column: source,
+        message: `File column ${source} is not loaded into the table`,
+      })
+    }
+  }
+
+  return issues
+}
@@ -0,0 +1,257 @@
+import { ClickHouseError, type ClickHouseClient } from "@clickhouse/client"
+import {
+  buildCreateTableQuery,
+  renameCreateTableQuery,
+  type ImportColumn,
+  type TableOptions,
+  type WriteMode,
+} from "@/lib/import/ddl"
+import { quoteIdentifier, SqlValidationError } from "@/lib/sql"
+
+// A column of an existing table as reported by DESCRIBE
+export interface TableColumn extends ImportColumn {
+  // DEFAULT, MATERIALIZED, ALIAS or EPHEMERAL, empty when the column has no default expression
+  defaultType: string
+}
+
+export interface TargetTable {
+  tableName: string
+  columns: ImportColumn[]
+  tableOptions: TableOptions
+  writeMode: WriteMode
+  // Statement edited before the import, run instead of the one built from the columns and options
+  createTableQuery?: string
+}
+
+// Check whether a table exists in the client's database
+export async function tableExists(client: ClickHouseClient, tableName: string): Promise<boolean> {
+  const result = await client.query({
+    query: "SELECT count() AS count FROM system.tables WHERE database = currentDatabase() AND name = {table:String}",
+    format: "JSONEachRow",
+    query_params: { table: tableName },
+  })
+  const rows = await result.json<{ count: string }>()
+  return Number(rows[0]?.count) > 0
+}
+
+// Get the column names, declared types and default kinds of an existing table
+export async function describeTable(client: ClickHouseClient, tableName: string): Promise<TableColumn[]> {
+  const result = await client.query({
+    query: `DESCRIBE TABLE ${quoteIdentifier(tableName)}`,
+    format: "JSONEachRow",
+  })
+  const rows = await result.json<{ name: string; type: string; default_type: string }>()
+  return rows.map((row) => ({ name: row.name, type: row.type, defaultType: row.default_type }))
+}
+
+// Have ClickHouse parse a CREATE TABLE statement without running it, and check that it declares every
+// imported column and doesn't fill the table from a query. Returns the names of the declared columns.
+export async function explainCreateTableQuery(
+  client: ClickHouseClient,
+  query: string,
+  columnNames: string[],
+): Promise<string[]> {
+  let lines: string[]
+  try {
+    const result = await client.query({ query: `EXPLAIN AST ${query}`, format: "JSONEachRow" })
+    lines = (await result.json<{ explain: string }>()).map((row) => row.explain)
+  } catch (error) {
+    if (error instanceof ClickHouseError) {
+      throw new SqlValidationError(`ClickHouse could not parse the statement: ${error.message}`)
+    }
+    throw error
+  }
+
+  // The tree has a line like "ColumnDeclaration name (children 1)" for every column
+  const declared = lines.flatMap((line) => {
+    const match = /^\s*ColumnDeclaration (.*?)(?: \(children \d+\))?$/.exec(line)
+    return match ? [match[1]] : []
+  })
+  if (lines.some((line) => line.trim().startsWith("SelectWithUnionQuery"))) {
+    throw new SqlValidationError("The statement must not load data from a query")
+  }
+  const missing = columnNames.filter((name) => !declared.includes(name))
+  if (missing.length > 0) {
+    throw new SqlValidationError(`The statement declares no column(s) ${missing.join(", ")}`)
+  }
+  return declared
+}
+
+// Get the target table ready for loading according to the write mode.
+// Everything here runs before the first row is sent, so a refused import leaves no partial data.
+export async function prepareTargetTable(client: ClickHouseClient, target: TargetTable) {
+  const { tableName, columns, tableOptions, writeMode, createTableQuery } = target
+  const exists = await tableExists(client, tableName)
+  const createTable = () =>
+    client.command({ query: createTableQuery ?? buildCreateTableQuery(tableName, columns, tableOptions) })
+
+  if (!exists) {
+    await createTable()
+    return
+  }
+
+  if (writeMode === "fail") {
+    throw new Error(`Table ${tableName} already exists`)
+  }
+
+  if (writeMode === "replace") {
+    await client.command({ query: `DROP TABLE ${quoteIdentifier(tableName)}` })
+    await createTable()
+    return
+  }
+
+  // Appending or truncating keeps the existing table, so every imported column must be in it
+  await checkTableColumns(client, tableName, columns)
+
+  if (writeMode === "truncate") {
+    await client.command({ query: `TRUNCATE TABLE ${quoteIdentifier(tableName)}` })
+  }
+}
+
+async function checkTableColumns(client: ClickHouseClient, tableName: string, columns: ImportColumn[]) {
+  const existingColumns = new Set((await describeTable(client, tableName)).map((col) => col.name))
+  const missingColumns = columns.filter((col) => !existingColumns.has(col.name)).map((col) => col.name)
+
+  if (missingColumns.length > 0) {
+    throw new Error(`Table ${tableName} has no column(s) ${missingColumns.join(", ")}`)
+  }
+}
+
+// Whether ClickHouse drops a repeated insert into a table by its deduplication token. Replicated tables
+// do so unless their window is 0, other MergeTree tables only with a non-replicated deduplication window,
+// which is 0 unless the table or the server's MergeTree settings set it. Other engines never do.
+export async function deduplicatesInserts(client: ClickHouseClient, tableName: string): Promise<boolean> {
+  const result = await client.query({
+    query:
+      "SELECT engine, engine_full FROM system.tables WHERE database = currentDatabase() AND name = {table:String}",
+    format: "JSONEachRow",
+    query_params: { table: tableName },
+  })
+  const [table] = await result.json<{ engine: string; engine_full: string }>()
+  if (!table?.engine.endsWith("MergeTree")) return false
+
+  const settingName = /^(Replicated|Shared)/.test(table.engine)
+    ? "replicated_deduplication_window"
+    : "non_replicated_deduplication_window"
+
+  const tableSetting = new RegExp(`\\b${settingName}\\s*=\\s*(\\d+)`).exec(table.engine_full)
+  if (tableSetting) return Number(tableSetting[1]) > 0
+
+  const defaults = await client.query({
+    query: "SELECT value FROM system.merge_tree_settings WHERE name = {name:String}",
+    format: "JSONEachRow",
+    query_params: { name: settingName },
+  })
+  return Number((await defaults.json<{ value: string }>())[0]?.value) > 0
+}
+
+// Engines that fold rows with the same sorting key together, on insert and in background merges
+const ROW_MERGING_ENGINE = /(Replacing|Summing|Aggregating|Collapsing|VersionedCollapsing|Graphite)MergeTree$/
+
+// Name of the table a staged import loads into. It is taken from the job, so a resumed import finds it again.
+export function stagingTableName(tableName: string, jobId: string): string {
+  return `${tableName}_staging_${jobId.slice(0, 8)}`
+}
+
+export async function dropTable(client: ClickHouseClient, tableName: string) {
+  await client.command({ query: `DROP TABLE IF EXISTS ${quoteIdentifier(tableName)}` })
+}
+
+// Create the empty staging table of a full refresh, leaving the live table alone. Truncating keeps the
+// live table's schema, so the staging table copies its columns, engine and keys. Replacing, or loading
+// a table that doesn't exist yet, creates the staging table the way the live table would be created.
+export async function prepareStagingTable(client: ClickHouseClient, target: TargetTable, stagingTable: string) {
+  const { tableName, columns, tableOptions, writeMode, createTableQuery } = target
+  // A staging table left over from an earlier attempt of the same job holds nothing worth keeping
+  await dropTable(client, stagingTable)
+
+  if (writeMode === "truncate" && (await tableExists(client, tableName))) {
+    await checkTableColumns(client, tableName, columns)
+    await client.command({ query: `CREATE TABLE ${quoteIdentifier(stagingTable)} AS ${quoteIdentifier(tableName)}` })
+    return
+  }
+
+  const query = createTableQuery
+    ? renameCreateTableQuery(createTableQuery, tableName, stagingTable)
+    : buildCreateTableQuery(stagingTable, columns, tableOptions)
+  await client.command({ query })
+}
+
+// Check that the staging table holds the rows loaded into it, then swap it in for the live table,
+// so readers go from the old rows to the new ones at once. The old rows are dropped afterwards.
+export async function swapStagingTable(
+  client: ClickHouseClient,
+  tableName: string,
+  stagingTable: string,
+  rowsLoaded: number,
+) {
+  const result = await client.query({
+    query: `SELECT count() AS count FROM ${quoteIdentifier(stagingTable)}`,
+    format: "JSONEachRow",
+  })
+  const rowCount = Number((await result.json<{ count: string }>())[0]?.count)
+
+  // An empty file refreshes the table to empty. Engines that merge rows may already have folded some of them together
+  const engine = await tableEngine(client, stagingTable)
+  if (rowCount > rowsLoaded || (!ROW_MERGING_ENGINE.test(engine) && rowCount !== rowsLoaded)) {
+    throw new Error(
+      `Staging table ${stagingTable} has ${rowCount} rows where ${rowsLoaded} were loaded, ` +
+        `so table ${tableName} was left as it was`,
+    )
+  }
+
+  if (!(await tableExists(client, tableName))) {
+    await client.command({ query: `RENAME TABLE ${quoteIdentifier(stagingTable)} TO ${quoteIdentifier(tableName)}` })
+    return
+  }
+
+  // EXCHANGE TABLES swaps both names at once, but only in an Atomic database
+  let exchanged = true
+  try {
+    await client.command({
+      query: `EXCHANGE TABLES ${quoteIdentifier(stagingTable)} AND ${quoteIdentifier(tableName)}`,
+    })
+  } catch (error) {
+    if (!(error instanceof ClickHouseError)) throw error
+    exchanged = false
+  }
+
+  if (exchanged) {
+    await dropOldRows(client, stagingTable)
+    return
+  }
+
+  // Elsewhere the live table is renamed out of the way and the staging table into its place, both in one
+  // RENAME statement. Should the second rename fail after the first, the live table is renamed back.
+  const oldTable = `${stagingTable}_old`
+  const live = quoteIdentifier(tableName)
+  const old = quoteIdentifier(oldTable)
+  try {
+    await client.command({ query: `RENAME TABLE ${live} TO ${old}, ${quoteIdentifier(stagingTable)} TO ${live}` })
+  } catch (error) {
+    if (!(await tableExists(client, tableName)) && (await tableExists(client, oldTable))) {
+      await client.command({ query: `RENAME TABLE ${old} TO ${live}` })
+    }
+    throw error
+  }
+  await dropOldRows(client, oldTable)
+}
+
+// Drop the table holding the rows a swap replaced. The new rows are live by now, so failing
+// to drop the old ones only leaves a table behind to drop by hand and doesn't fail the import.
+async function dropOldRows(client: ClickHouseClient, oldTable: string) {
+  try {
+    await dropTable(client, oldTable)
+  } catch (error) {
+    console.error(`Error dropping table ${oldTable} with the replaced rows:`, error)
+  }
+}
+
+async function tableEngine(client: ClickHouseClient, tableName: string): Promise<string> {
+  const result = await client.query({
+    query: "SELECT engine FROM system.tables WHERE database = currentDatabase() AND name = {table:String}",
+    format: "JSONEachRow",
+    query_params: { table: tableName },
+  })
+  return (await result.json<{ engine: string }>())[0]?.engine ?? ""
+}
@@ -0,0 +1,142 @@
+import { createWriteStream } from "fs"
+import * as fs from "fs/promises"
+import { Transform } from "stream"
+import { pipeline } from "stream/promises"
+import type { SpooledFile } from "@/lib/import/upload"
+import { AUTO_ENCODING, isSupportedEncoding, type SourceEncoding } from "@/lib/import/encoding"
+import { openDecompressed, type Compression } from "@/lib/import/compression"
+
+const BYTE_ORDER_MARKS = [
+  { encoding: "utf-8", bytes: [0xef, 0xbb, 0xbf] },
+  { encoding: "utf-16le", bytes: [0xff, 0xfe] },
+  { encoding: "utf-16be", bytes: [0xfe, 0xff] },
+]
+
+// Number of bytes from the start of a file looked at to detect its encoding
+const DETECTION_BYTES = 64 * 1024
+
+// Share of code units with a zero byte in one half above which text is taken as UTF-16
+const UTF16_ZERO_RATIO = 0.3
+
+// Read the start of the decompressed contents of a file
+async function readHead(filePath: string, compression: Compression): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  let length = 0
+  for await (const chunk of await openDecompressed(filePath, compression)) {
+    chunks.push(chunk)
+    length += chunk.length
+    if (length >= DETECTION_BYTES) break
+  }
+  return Buffer.concat(chunks).subarray(0, DETECTION_BYTES)
+}
+
+// Read the start of a file as text, decompressed and decoded, to work out how it is laid out
+export async function readTextHead(
+  filePath: string,
+  compression: Compression,
+  encoding?: SourceEncoding,
+): Promise<string> {
+  // A character cut off at the end of the sample is left out rather than replaced
+  const decoder = new TextDecoder(encoding?.encoding ?? "utf-8")
+  return decoder.decode(await readHead(filePath, compression), { stream: true })
+}
+
+function startsWith(head: Buffer, bytes: number[]): boolean {
+  return bytes.every((byte, i) => head[i] === byte)
+}
+
+function isUtf8(head: Buffer): boolean {
+  try {
+    // A multi-byte character cut off at the end of the sample is buffered, not rejected
+    new TextDecoder("utf-8", { fatal: true }).decode(head, { stream: true })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Guess the encoding of text without a byte order mark. Mostly-ASCII UTF-16 has a zero
+// in one byte of nearly every code unit, anything else that isn't valid UTF-8 is taken as
+// Windows-1252, the usual export encoding of Western Windows tools.
+function guessEncoding(head: Buffer): string {
+  const units = Math.floor(head.length / 2)
+  let evenZeros = 0
+  let oddZeros = 0
+  for (let i = 0; i < units * 2; i += 2) {
+    if (head[i] === 0) evenZeros++
+    if (head[i + 1] === 0) oddZeros++
+  }
+  if (units > 0 && oddZeros / units > UTF16_ZERO_RATIO && evenZeros < oddZeros / 10) return "utf-16le"
+  if (units > 0 && evenZeros / units > UTF16_ZERO_RATIO && oddZeros < evenZeros / 10) return "utf-16be"
+
+  return isUtf8(head) ? "utf-8" : "windows-1252"
+}
+
+// Work out the encoding of a file, or check the one asked for. A byte order mark decides
+// the encoding when detecting, and is skipped when it matches the encoding asked for.
+export async function resolveEncoding(
+  filePath: string,
+  requested = AUTO_ENCODING,
+  compression: Compression = { format: "none" },
+): Promise<SourceEncoding> {
+  const head = await readHead(filePath, compression)
+
+  if (requested === AUTO_ENCODING) {
+    const bom = BYTE_ORDER_MARKS.find((mark) => startsWith(head, mark.bytes))
+    if (bom) {
+      return { encoding: bom.encoding, bomLength: bom.bytes.length, detected: true }
+    }
+    return { encoding: guessEncoding(head), bomLength: 0, detected: true }
+  }
+
+  if (!isSupportedEncoding(requested)) {
+    throw new Error(`Unsupported encoding "${requested}"`)
+  }
+  const bom = BYTE_ORDER_MARKS.find((mark) => mark.encoding === requested && startsWith(head, mark.bytes))
+  return { encoding: requested, bomLength: bom?.bytes.length ?? 0, detected: false }
+}
+
+// Whether a file has to be converted before it can be parsed as UTF-8
+export function needsTranscoding({ encoding, bomLength }: SourceEncoding): boolean {
+  return encoding !== "utf-8" || bomLength > 0
+}
+
+// A stream that turns bytes in the given encoding into UTF-8 and drops a leading byte order
+// mark. Characters split across chunks are carried over to the next one.
+export function createDecodingStream(encoding: string): Transform {
+  const decoder = new TextDecoder(encoding)
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      callback(null, Buffer.from(decoder.decode(chunk, { stream: true })))
+    },
+    flush(callback) {
+      callback(null, Buffer.from(decoder.decode()))
+    },
+  })
+}
+
+// Whether a file has to be decompressed or converted before it can be parsed as UTF-8.
+// Binary files have no encoding and are only decompressed.
+export function needsExtraction(compression: Compression, encoding?: SourceEncoding): boolean {
+  return compression.format !== "none" || (encoding !== undefined && needsTranscoding(encoding))
+}
+
+// Write the upload as plain UTF-8 text without a byte order mark next to it, decompressing and
+// decoding it on the way, or only decompress it when it is a binary file without an encoding.
+// The copy keeps the checksum of the upload, which identifies the file sent.
+export async function extractFile(
+  file: SpooledFile,
+  compression: Compression,
+  encoding?: SourceEncoding,
+): Promise<SpooledFile> {
+  const copyPath = `${file.path}.extracted`
+  const input = await openDecompressed(file.path, compression)
+  const output = createWriteStream(copyPath)
+  if (encoding && needsTranscoding(encoding)) {
+    await pipeline(input, createDecodingStream(encoding.encoding), output)
+  } else {
+    await pipeline(input, output)
+  }
+  const { size } = await fs.stat(copyPath)
+  return { ...file, path: copyPath, size }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest"
+import { createColumnReader, type TransformStep } from "@/lib/import/transform"
+
+// Read a single-column record through one regex replace
+function replaceReader(pattern: string, replacement = "") {
+  const step: TransformStep = { kind: "replace", pattern, replacement }
+  const read = createColumnReader(
+    { name: "value", type: "String", source: { kind: "column", column: "value" }, transforms: [step] },
+    ["value"],
+  )
+  return (value: string) => read([value])
+}
+
+describe("regex replace", () => {
+  it("replaces every match, with groups in the replacement", () => {
+    expect(replaceReader("(\\d{4})-(\\d{2})", "$2/$1")("2024-05 and 2025-06")).toBe("05/2024 and 06/2025")
+    expect(replaceReader("(?<year>\\d{4})", "[$<year>]")("in 2024")).toBe("in [2024]")
+    expect(replaceReader("\\s+", " ")("a  b\t\tc")).toBe("a b c")
+  })
+
+  it("rejects invalid patterns and those needing backtracking", () => {
+    expect(() => replaceReader("(a")).toThrow('Invalid regular expression "(a"')
+    expect(() => replaceReader("(a)\\1")).toThrow("Invalid regular expression")
+    expect(() => replaceReader("a(?=b)")).toThrow("Invalid regular expression")
+  })
+
+  // Each of these takes seconds or more on a backtracking engine for values of this length
+  it.each([
+    ["^(a|aa)+$", "a".repeat(4095) + "!"],
+    ["(a|a)*$", "a".repeat(4095) + "!"],
+    ["(.*a){20}", "a".repeat(4096)],
+    ["(a+)+$", "a".repeat(4095) + "!"],
+    ["(\\w*\\s?)*$", "word ".repeat(1000) + "!"],
+    ["a*a*b", "a".repeat(4096)],
+    [".*a.*b.*c", "a".repeat(4096)],
+  ])("runs %s in linear time", (pattern, value) => {
+    const replace = replaceReader(pattern, "x")
+    const started = Date.now()
+    replace(value)
+    expect(Date.now() - started).toBeLessThan(1000)
+  })
+})
@@ -0,0 +1,125 @@
+import { RE2JS } from "re2js"
+import { valueFitsType } from "@/lib/import/infer"
+import type { ColumnSource, MappedColumn } from "@/lib/import/mapping"
+import { createDateParser } from "@/lib/import/dates"
+
+// A cleanup step applied to a column's value, in order, before it is converted to the column type
+export type TransformStep =
+  | { kind: "trim" }
+  | { kind: "lowercase" }
+  | { kind: "replace"; pattern: string; replacement: string }
+  | { kind: "defaultIfEmpty"; value: string }
+  // Replace values that don't fit the column type with the fallback
+  | { kind: "cast"; fallback: string }
+
+export const TRANSFORM_LABELS: Record<TransformStep["kind"], string> = {
+  trim: "Trim whitespace",
+  lowercase: "Lowercase",
+  replace: "Regex replace",
+  defaultIfEmpty: "Default if empty",
+  cast: "Cast with fallback",
+}
+
+// File columns a source reads from
+export function referencedColumns(source: ColumnSource): string[] {
+  switch (source.kind) {
+    case "column":
+    case "split":
+      return [source.column]
+    case "concat":
+      return source.columns
+    case "template":
+      return Array.from(source.template.matchAll(/\{([^{}]+)\}/g), (match) => match[1])
+    default:
+      return []
+  }
+}
+
+function columnIndex(sourceColumns: string[], column: string): number {
+  const index = sourceColumns.indexOf(column)
+  if (index === -1) {
+    throw new Error(`Column "${column}" does not exist in the file`)
+  }
+  return index
+}
+
+// Build a function that reads a source's raw value from a record
+function createSourceReader(source: MappedColumn["source"], sourceColumns: string[]): (record: string[]) => string {
+  switch (source.kind) {
+    case "constant": {
+      const value = source.value
+      return () => value
+    }
+    case "column": {
+      const index = columnIndex(sourceColumns, source.column)
+      return (record) => record[index] ?? ""
+    }
+    case "split": {
+      const index = columnIndex(sourceColumns, source.column)
+      return (record) => (record[index] ?? "").split(source.separator)[source.index] ?? ""
+    }
+    case "concat": {
+      const indexes = source.columns.map((column) => columnIndex(sourceColumns, column))
+      return (record) => indexes.map((index) => record[index] ?? "").join(source.separator)
+    }
+    case "template": {
+      // Resolve the placeholders once, then substitute them per record
+      const indexes = new Map(referencedColumns(source).map((column) => [column, columnIndex(sourceColumns, column)]))
+      return (record) => source.template.replace(/\{([^{}]+)\}/g, (_, column) => record[indexes.get(column)!] ?? "")
+    }
+    default:
+      throw new Error(`Unsupported column source "${(source as { kind: string }).kind}"`)
+  }
+}
+
+// Build a function for one transformation step, compiling regular expressions up front.
+// `fits` tells whether a value can be loaded into the column.
+function createStep(step: TransformStep, fits: (value: string) => boolean): (value: string) => string {
+  switch (step.kind) {
+    case "trim":
+      return (value) => value.trim()
+    case "lowercase":
+      return (value) => value.toLowerCase()
+    case "replace": {
+      // RE2 matches in time linear in the value, so no pattern can stall the import on a row.
+      // It has no backreferences or lookarounds; patterns using them are rejected.
+      let pattern: RE2JS
+      try {
+        pattern = RE2JS.compile(RE2JS.translateRegExp(step.pattern))
+      } catch {
+        throw new Error(`Invalid regular expression "${step.pattern}"`)
+      }
+      return (value) => pattern.matcher(value).replaceAll(step.replacement)
+    }
+    case "defaultIfEmpty":
+      return (value) => (value === "" ? step.value : value)
+    case "cast":
+      return (value) => (value === "" || fits(value) ? value : step.fallback)
+    default:
+      throw new Error(`Unsupported transformation "${(step as { kind: string }).kind}"`)
+  }
+}
+
+// Build a function that produces a column's value from a record: read its source, apply its
+// transformations, then convert dates from the file's format. Throws if the column refers to a
+// file column that doesn't exist; the function throws for a date that doesn't match the format.
+export function createColumnReader(column: MappedColumn, sourceColumns: string[]): (record: string[]) => string {
+  const read = createSourceReader(column.source, sourceColumns)
+  const parseDate = column.dateFormat ? createDateParser(column.dateFormat, column.type) : null
+
+  const fits = (value: string) => {
+    if (!parseDate) return valueFitsType(value, column.type)
+    try {
+      parseDate(value)
+      return true
+    } catch {
+      return false
+    }
+  }
+  const steps = (column.transforms ?? []).map((step) => createStep(step, fits))
+
+  return (record) => {
+    const value = steps.reduce((value, step) => step(value), read(record))
+    return parseDate ? parseDate(value) : value
+  }
+}
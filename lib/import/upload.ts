@@ -0,0 +1,84 @@
+import { createWriteStream } from "fs"
+import * as fs from "fs/promises"
+import * as path from "path"
+import * as os from "os"
+import { Readable } from "stream"
+import { pipeline } from "stream/promises"
+import type { ReadableStream as NodeReadableStream } from "stream/web"
+import { createHash } from "crypto"
+import busboy from "busboy"
+
+export interface SpooledFile {
+  name: string
+  path: string
+  size: number
+  // SHA-256 of the file contents, computed while it is written
+  sha256: string
+}
+
+export interface SpooledUpload {
+  fields: Record<string, string>
+  file: SpooledFile | null
+  tempDir: string
+}
+
+// Stream a multipart request to disk. The uploaded file is written to a temporary
+// directory chunk by chunk, so the request body is never held in memory.
+export async function spoolUpload(request: Request, prefix: string): Promise<SpooledUpload> {
+  if (!request.body) {
+    throw new Error("Request body is empty")
+  }
+
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), prefix))
+  const fields: Record<string, string> = {}
+  let file: SpooledFile | null = null
+  let fileWrite: Promise<void> | null = null
+
+  const parser = busboy({ headers: { "content-type": request.headers.get("content-type") ?? "" } })
+
+  parser.on("field", (name, value) => {
+    fields[name] = value
+  })
+
+  parser.on("file", (name, stream, info) => {
+    // Only the first "file" part is kept, anything else is drained
+    if (name !== "file" || file) {
+      stream.resume()
+      return
+    }
+
+    const spooled: SpooledFile = {
+      name: path.basename(info.filename || "upload"),
+      path: path.join(tempDir, path.basename(info.filename || "upload")),
+      size: 0,
+      sha256: "",
+    }
+    const hash = createHash("sha256")
+    stream.on("data", (chunk: Buffer) => {
+      spooled.size += chunk.length
+      hash.update(chunk)
+    })
+    stream.on("end", () => {
+      spooled.sha256 = hash.digest("hex")
+    })
+    file = spooled
+    fileWrite = pipeline(stream, createWriteStream(spooled.path))
+    // Surfaced when awaited below, keep it from being reported as unhandled meanwhile
+    fileWrite.catch(() => {})
+  })
+
+  try {
+    await pipeline(Readable.fromWeb(request.body as NodeReadableStream<Uint8Array>), parser)
+    await fileWrite
+  } catch (error) {
+    await fs.rm(tempDir, { recursive: true, force: true })
+    throw error
+  }
+
+  return { fields, file, tempDir }
+}
+
+// Remove the temporary directory created for an upload
+export async function removeUpload(upload: Pick<SpooledUpload, "tempDir">) {
+  await fs.rm(upload.tempDir, { recursive: true, force: true })
+}
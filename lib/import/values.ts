@@ -0,0 +1,68 @@
+// Conversion of raw file values into JSONEachRow values for a ClickHouse column type
+
+const NUMBER_TYPES = new Set(["Int8", "Int16", "Int32", "UInt8", "UInt16", "UInt32", "Float32", "Float64"])
+
+// 64-bit and wider integers are sent as strings so they don't lose precision in JS numbers
+const BIG_INTEGER_TYPES = new Set(["Int64", "Int128", "Int256", "UInt64", "UInt128", "UInt256"])
+
+const TRUE_VALUES = new Set(["true", "1", "yes", "y", "t"])
+const FALSE_VALUES = new Set(["false", "0", "no", "n", "f"])
+
+// Types whose values are nested structures, written in the file as JSON text
+const COMPOSITE_TYPE_PATTERN = /^(?:JSON|Object|Map|Tuple|Array)\b/
+
+// Whether a type holds nested values, which ClickHouse does not allow inside Nullable or LowCardinality
+export function isCompositeType(type: string): boolean {
+  return COMPOSITE_TYPE_PATTERN.test(unwrapType(type))
+}
+
+// Strip Nullable(...) and LowCardinality(...) wrappers, e.g. LowCardinality(Nullable(String)) -> String
+export function unwrapType(type: string): string {
+  const match = /^(?:Nullable|LowCardinality)\((.*)\)$/.exec(type.trim())
+  return match ? unwrapType(match[1]) : type.trim()
+}
+
+// Convert a single raw value to the JSON representation ClickHouse expects for the type.
+// Empty values become NULL. Throws if the value cannot represent the type.
+export function serializeValue(value: unknown, type: string): unknown {
+  if (value === null || value === undefined || value === "") {
+    return null
+  }
+
+  const baseType = unwrapType(type)
+  const text = String(value)
+
+  if (NUMBER_TYPES.has(baseType)) {
+    const number = Number(text)
+    if (text.trim() === "" || Number.isNaN(number)) {
+      throw new Error(`Value "${text}" is not a valid ${baseType}`)
+    }
+    return number
+  }
+
+  if (BIG_INTEGER_TYPES.has(baseType)) {
+    if (!/^[+-]?\d+$/.test(text.trim())) {
+      throw new Error(`Value "${text}" is not a valid ${baseType}`)
+    }
+    return text.trim()
+  }
+
+  if (baseType === "Bool") {
+    const normalized = text.trim().toLowerCase()
+    if (TRUE_VALUES.has(normalized)) return true
+    if (FALSE_VALUES.has(normalized)) return false
+    throw new Error(`Value "${text}" is not a valid Bool`)
+  }
+
+  // Nested values are sent as JSON, e.g. an object for a Map or a named Tuple
+  if (isCompositeType(baseType)) {
+    try {
+      return JSON.parse(text)
+    } catch {
+      throw new Error(`Value "${text}" is not valid JSON for ${baseType}`)
+    }
+  }
+
+  // Strings, dates, decimals, UUIDs and everything else are sent as JSON strings
+  return text
+}
@@ -0,0 +1,378 @@
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+import { crc32, deflateRawSync } from "zlib"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { countSheetRows, createXlsxStream, readWorkbook, type XlsxOptions } from "@/lib/import/xlsx"
+import type { SourceRecord } from "@/lib/import/records"
+
+const MAX_32 = 0xffffffff
+
+let dir: string
+let fileCount = 0
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "xlsx-test-"))
+})
+
+afterAll(async () => {
+  await fs.rm(dir, { recursive: true, force: true })
+})
+
+// A zip archive of deflated members. A Zip64 archive marks every size and offset as too large for 32 bits,
+// as archives over 4 GB do, and keeps them in Zip64 extra fields and a Zip64 end record instead.
+function zipArchive(files: Record<string, string>, zip64 = false): Buffer {
+  const parts: Buffer[] = []
+  const directory: Buffer[] = []
+  let offset = 0
+
+  for (const [name, text] of Object.entries(files)) {
+    const data = Buffer.from(text)
+    const compressed = deflateRawSync(data)
+    const nameBytes = Buffer.from(name)
+    const extra = Buffer.alloc(zip64 ? 28 : 0)
+    if (zip64) {
+      extra.writeUInt16LE(0x0001, 0)
+      extra.writeUInt16LE(24, 2)
+      extra.writeBigUInt64LE(BigInt(data.length), 4)
+      extra.writeBigUInt64LE(BigInt(compressed.length), 12)
+      extra.writeBigUInt64LE(BigInt(offset), 20)
+    }
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(zip64 ? 45 : 20, 4)
+    local.writeUInt16LE(8, 8)
+    local.writeUInt32LE(crc32(data), 14)
+    local.writeUInt32LE(zip64 ? MAX_32 : compressed.length, 18)
+    local.writeUInt32LE(zip64 ? MAX_32 : data.length, 22)
+    local.writeUInt16LE(nameBytes.length, 26)
+    local.writeUInt16LE(extra.length, 28)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(zip64 ? 45 : 20, 4)
+    central.writeUInt16LE(zip64 ? 45 : 20, 6)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt32LE(crc32(data), 16)
+    central.writeUInt32LE(zip64 ? MAX_32 : compressed.length, 20)
+    central.writeUInt32LE(zip64 ? MAX_32 : data.length, 24)
+    central.writeUInt16LE(nameBytes.length, 28)
+    central.writeUInt16LE(extra.length, 30)
+    central.writeUInt32LE(zip64 ? MAX_32 : offset, 42)
+
+    parts.push(local, nameBytes, extra, compressed)
+    directory.push(central, nameBytes, extra)
+    offset += local.length + nameBytes.length + extra.length + compressed.length
+  }
+
+  const directoryBytes = Buffer.concat(directory)
+  const count = Object.keys(files).length
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(zip64 ? 0xffff : count, 8)
+  end.writeUInt16LE(zip64 ? 0xffff : count, 10)
+  end.writeUInt32LE(zip64 ? MAX_32 : directoryBytes.length, 12)
+  end.writeUInt32LE(zip64 ? MAX_32 : offset, 16)
+  if (!zip64) return Buffer.concat([...parts, directoryBytes, end])
+
+  const record = Buffer.alloc(56)
+  record.writeUInt32LE(0x06064b50, 0)
+  record.writeBigUInt64LE(BigInt(44), 4)
+  record.writeUInt16LE(45, 12)
+  record.writeUInt16LE(45, 14)
+  record.writeBigUInt64LE(BigInt(count), 24)
+  record.writeBigUInt64LE(BigInt(count), 32)
+  record.writeBigUInt64LE(BigInt(directoryBytes.length), 40)
+  record.writeBigUInt64LE(BigInt(offset), 48)
+  const locator = Buffer.alloc(20)
+  locator.writeUInt32LE(0x07064b50, 0)
+  locator.writeBigUInt64LE(BigInt(offset + directoryBytes.length), 8)
+  locator.writeUInt32LE(1, 16)
+  return Buffer.concat([...parts, directoryBytes, record, locator, end])
+}
+
+const MAIN = "http://schemas.openxmlformats.org/spreadsheetml/2006/main"
+const RELATIONSHIPS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships"
+
+interface WorkbookFixture {
+  // Sheet XML by sheet name, in order
+  sheets: Record<string, string>
+  sharedStrings?: string[]
+  // Number formats of the cell styles, by style index: a built-in format id or a format code
+  styles?: (number | string)[]
+  date1904?: boolean
+  zip64?: boolean
+}
+
+const sheetXml = (rows: string, head = "") =>
+  `<worksheet xmlns="${MAIN}">${head}<sheetData>${rows}</sheetData></worksheet>`
+
+function stylesXml(formats: (number | string)[]): string {
+  const codes = formats.flatMap((format, i) => (typeof format === "string" ? [[164 + i, format] as const] : []))
+  const numFmts = codes.map(([id, code]) => `<numFmt numFmtId="${id}" formatCode="${code.replace(/"/g, "&quot;")}"/>`)
+  const xfs = formats.map((format, i) => `<xf numFmtId="${typeof format === "string" ? 164 + i : format}"/>`)
+  return (
+    `<styleSheet xmlns="${MAIN}"><numFmts count="${numFmts.length}">${numFmts.join("")}</numFmts>` +
+    `<cellStyleXfs count="1"><xf numFmtId="0"/></cellStyleXfs>` +
+    `<cellXfs count="${xfs.length}">${xfs.join("")}</cellXfs></styleSheet>`
+  )
+}
+
+async function writeWorkbook(fixture: WorkbookFixture): Promise<string> {
+  const names = Object.keys(fixture.sheets)
+  const relation = (id: string, type: string, target: string) =>
+    `<Relationship Id="${id}" Type="${RELATIONSHIPS}/${type}" Target="${target}"/>`
+  const sheetRelations = names.map((_name, i) => relation(`rId${i + 1}`, "worksheet", `worksheets/sheet${i + 1}.xml`))
+  const files: Record<string, string> = {
+    "_rels/.rels": `<Relationships>${relation("rId1", "officeDocument", "xl/workbook.xml")}</Relationships>`,
+    "xl/workbook.xml":
+      `<workbook xmlns="${MAIN}" xmlns:r="${RELATIONSHIPS}">` +
+      `<workbookPr${fixture.date1904 ? ' date1904="1"' : ""}/><sheets>` +
+      names.map((name, i) => `<sheet name="${name}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join("") +
+      `</sheets></workbook>`,
+    "xl/_rels/workbook.xml.rels":
+      "<Relationships>" +
+      sheetRelations.join("") +
+      relation("rIdStrings", "sharedStrings", "sharedStrings.xml") +
+      relation("rIdStyles", "styles", "styles.xml") +
+      "</Relationships>",
+    "xl/sharedStrings.xml": `<sst xmlns="${MAIN}">${(fixture.sharedStrings ?? []).join("")}</sst>`,
+    "xl/styles.xml": stylesXml(fixture.styles ?? [0]),
+  }
+  names.forEach((name, i) => {
+    files[`xl/worksheets/sheet${i + 1}.xml`] = fixture.sheets[name]
+  })
+
+  const filePath = path.join(dir, `${fileCount++}.xlsx`)
+  await fs.writeFile(filePath, zipArchive(files, fixture.zip64))
+  return filePath
+}
+
+async function readRecords(filePath: string, options: Partial<XlsxOptions> = {}) {
+  const records: string[][] = []
+  const stream = createXlsxStream(filePath, { hasHeader: false, ...options })
+  for await (const { record } of stream as AsyncIterable<SourceRecord>) {
+    records.push(record)
+  }
+  return records
+}
+
+describe("Excel cell values", () => {
+  it("reads shared strings, joining rich text runs and leaving phonetic hints out", async () => {
+    const filePath = await writeWorkbook({
+      sharedStrings: [
+        "<si><t>plain</t></si>",
+        '<si><r><rPr><b/></rPr><t>Bold</t></r><r><t xml:space="preserve"> and not</t></r></si>',
+        '<si><t>東京</t><rPh sb="0" eb="2"><t>トウキョウ</t></rPh><phoneticPr fontId="1"/></si>',
+        "<si><t/></si>",
+        "<si><t>a &amp; b &lt;c&gt; &#x41;&#66;</t></si>",
+      ],
+      sheets: {
+        Sheet1: sheetXml(
+          '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c>' +
+            '<c r="D1" t="s"><v>3</v></c><c r="E1" t="s"><v>4</v></c></row>',
+        ),
+      },
+    })
+    expect(await readRecords(filePath)).toEqual([["plain", "Bold and not", "東京", "", "a & b <c> AB"]])
+  })
+
+  it("reads inline strings, including rich text and phonetic hints", async () => {
+    const filePath = await writeWorkbook({
+      sheets: {
+        Sheet1: sheetXml(
+          '<row r="1"><c r="A1" t="inlineStr"><is><t>inline</t></is></c>' +
+            '<c r="B1" t="inlineStr"><is><r><t>rich</t></r>' +
+            '<r><rPr><i/></rPr><t xml:space="preserve"> text</t></r></is></c>' +
+            '<c r="C1" t="inlineStr"><is><t>大阪</t><rPh sb="0" eb="2"><t>オオサカ</t></rPh></is></c></row>',
+        ),
+      },
+    })
+    expect(await readRecords(filePath)).toEqual([["inline", "rich text", "大阪"]])
+  })
+
+  it("reads numbers, booleans, formulas, errors and ISO dates", async () => {
+    const filePath = await writeWorkbook({
+      sheets: {
+        Sheet1: sheetXml(
+          '<row r="1"><c r="A1"><v>42</v></c><c r="B1"><v>-1.5E-3</v></c><c r="C1" t="b"><v>1</v></c>' +
+            '<c r="D1" t="b"><v>0</v></c><c r="E1" t="str"><f>A1&amp;"x"</f><v>42x</v></c>' +
+            '<c r="F1" t="e"><f>1/0</f><v>#DIV/0!</v></c><c r="G1" t="d"><v>2024-02-29T10:00:00</v></c>' +
+            '<c r="H1"><f>A1*2</f><v>84</v></c></row>',
+        ),
+      },
+    })
+    expect(await readRecords(filePath)).toEqual([
+      ["42", "-1.5E-3", "true", "false", "42x", "", "2024-02-29T10:00:00", "84"],
+    ])
+  })
+
+  // Number formats of the cell styles: general, built-in date, date and time, and time formats, then custom ones
+  const styles = [0, 14, 22, 21, "yyyy-mm-dd hh:mm", "[h]:mm", "mm:ss", "0.00", '"Day "d mmm yyyy']
+
+  it.each([
+    [
+      "the 1900 date system",
+      false,
+      [
+        [1, "1", "1900-01-01"],
+        [1, "59", "1900-02-28"],
+        [1, "61", "1900-03-01"],
+        [0, "45000", "45000"],
+        [1, "45000", "2023-03-15"],
+        [2, "45000.25", "2023-03-15 06:00:00"],
+        [2, "45000.0000115741", "2023-03-15 00:00:01"],
+        [3, "0.75", "18:00:00"],
+        [3, "45000.75", "2023-03-15 18:00:00"],
+        [4, "45000.5", "2023-03-15 12:00:00"],
+        [5, "1.5", "1900-01-01 12:00:00"],
+        [6, "0.000011574", "00:00:01"],
+        [7, "45000", "45000"],
+        [8, "45000", "2023-03-15"],
+      ],
+    ],
+    [
+      "the 1904 date system",
+      true,
+      [
+        [1, "0", "1904-01-01"],
+        [1, "366", "1905-01-01"],
+        [0, "43538", "43538"],
+        [1, "43538", "2023-03-15"],
+        [2, "43538.25", "2023-03-15 06:00:00"],
+        [3, "0.75", "18:00:00"],
+        [4, "43538.5", "2023-03-15 12:00:00"],
+        [8, "43538", "2023-03-15"],
+      ],
+    ],
+  ] as const)("reads dates in %s", async (_name, date1904, cases) => {
+    const rows = cases.map(
+      ([style, serial], i) => `<row r="${i + 1}"><c r="A${i + 1}" s="${style}"><v>${serial}</v></c></row>`,
+    )
+    const filePath = await writeWorkbook({ date1904, styles, sheets: { Sheet1: sheetXml(rows.join("")) } })
+    expect(await readRecords(filePath)).toEqual(cases.map(([, , text]) => [text]))
+  })
+})
+
+describe("Excel sheet layout", () => {
+  it("places cells by reference, leaving gaps empty and skipping empty rows", async () => {
+    const filePath = await writeWorkbook({
+      sheets: {
+        Sheet1: sheetXml(
+          '<row r="2"><c r="B2"><v>1</v></c><c r="D2"><v>2</v></c></row>' +
+            '<row r="3"><c r="C3" t="e"><v>#N/A</v></c></row>' +
+            "<row/>" +
+            '<row r="6"><c r="A6"><v>3</v></c><c r="E6"><v>4</v></c></row>',
+          '<dimension ref="A2:E6"/>',
+        ),
+      },
+    })
+    expect(await readRecords(filePath)).toEqual([
+      ["", "1", "", "2", ""],
+      ["3", "", "", "", "4"],
+    ])
+    expect(await countSheetRows(filePath, { hasHeader: false })).toBe(6)
+  })
+
+  it("places cells and rows without references after the ones before them", async () => {
+    const filePath = await writeWorkbook({
+      sheets: {
+        Sheet1: sheetXml(
+          '<row r="1"><c><v>1</v></c><c r="C1"><v>2</v></c><c><v>3</v></c></row>' +
+            '<row><c r="B2"><v>4</v></c><c><v>5</v></c></row>',
+        ),
+      },
+    })
+    expect(await readRecords(filePath)).toEqual([
+      ["1", "", "2", "3"],
+      ["", "4", "5", ""],
+    ])
+    expect(await readRecords(filePath, { range: "B2:C2" })).toEqual([["4", "5"]])
+  })
+
+  it("reads a merged cell's value from its first cell only", async () => {
+    const filePath = await writeWorkbook({
+      sheets: {
+        Sheet1:
+          `<worksheet xmlns="${MAIN}"><dimension ref="A1:C2"/><sheetData>` +
+          '<row r="1"><c r="A1" t="inlineStr"><is><t>merged</t></is></c><c r="B1"/><c r="C1"><v>1</v></c></row>' +
+          '<row r="2"><c r="A2"/><c r="B2"/><c r="C2"><v>2</v></c></row>' +
+          '</sheetData><mergeCells count="1"><mergeCell ref="A1:B2"/></mergeCells></worksheet>',
+      },
+    })
+    expect(await readRecords(filePath)).toEqual([
+      ["merged", "", "1"],
+      ["", "", "2"],
+    ])
+  })
+
+  it("reads the chosen sheet, range, header row and starting record", async () => {
+    const rows = Array.from(
+      { length: 6 },
+      (_, i) => `<row r="${i + 1}"><c r="A${i + 1}"><v>${i}</v></c><c r="B${i + 1}"><v>${i * 10}</v></c></row>`,
+    )
+    const filePath = await writeWorkbook({
+      sheets: {
+        First: sheetXml('<row r="1"><c r="A1"><v>0</v></c></row>'),
+        Second: sheetXml(rows.join("")),
+      },
+    })
+    expect((await readWorkbook(filePath)).sheets.map((sheet) => sheet.name)).toEqual(["First", "Second"])
+    expect(await readRecords(filePath, { sheet: "Second", range: "B2:B5" })).toEqual([["10"], ["20"], ["30"], ["40"]])
+    const headerOptions = { sheet: "Second", hasHeader: true, headerRow: 3 }
+    expect(await readRecords(filePath, headerOptions)).toEqual([
+      ["2", "20"],
+      ["3", "30"],
+      ["4", "40"],
+      ["5", "50"],
+    ])
+    // The header row is the first record
+    expect(await readRecords(filePath, { ...headerOptions, start: 2 })).toEqual([
+      ["4", "40"],
+      ["5", "50"],
+    ])
+    expect(await countSheetRows(filePath, { sheet: "Second", hasHeader: false, range: "A2:B5" })).toBe(4)
+    await expect(readRecords(filePath, { sheet: "Third" })).rejects.toThrow('The workbook has no sheet "Third"')
+  })
+
+  it("reads sheets with namespace prefixes, comments and markup in attribute values", async () => {
+    const filePath = await writeWorkbook({
+      sheets: {
+        Sheet1:
+          `<?xml version="1.0"?><!-- <row> --><x:worksheet xmlns:x="${MAIN}" note='a > b'><x:sheetData>` +
+          '<x:row r="1"><x:c r="A1" t="inlineStr">' +
+          "<x:is><x:t>prefixed</x:t></x:is></x:c><x:c r=\"B1\"><x:v>1</x:v></x:c></x:row></x:sheetData></x:worksheet>",
+      },
+    })
+    expect(await readRecords(filePath)).toEqual([["prefixed", "1"]])
+  })
+
+  it("reads sheets that span many chunks of XML", async () => {
+    const count = 20000
+    const cells = (i: number) =>
+      `<c r="A${i}"><v>${i}</v></c><c r="B${i}" t="inlineStr"><is><t>row &amp; ${i}</t></is></c>`
+    const rows = Array.from({ length: count }, (_, i) => `<row r="${i + 1}">${cells(i + 1)}</row>`)
+    const filePath = await writeWorkbook({ sheets: { Sheet1: sheetXml(rows.join("")) } })
+    const records = await readRecords(filePath)
+    expect(records).toHaveLength(count)
+    expect(records[count - 1]).toEqual([String(count), `row & ${count}`])
+    expect(records.every((record, i) => record[0] === String(i + 1) && record[1] === `row & ${i + 1}`)).toBe(true)
+  })
+})
+
+describe("Excel workbook archives", () => {
+  it("reads workbooks stored as Zip64 archives", async () => {
+    const filePath = await writeWorkbook({
+      zip64: true,
+      sharedStrings: ["<si><t>zip64</t></si>"],
+      sheets: { Sheet1: sheetXml('<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1"><v>64</v></c></row>') },
+    })
+    expect(await readRecords(filePath)).toEqual([["zip64", "64"]])
+  })
+
+  it("rejects a workbook without sheets", async () => {
+    const filePath = await writeWorkbook({ sheets: {} })
+    await expect(readWorkbook(filePath)).rejects.toThrow("The workbook has no sheets")
+  })
+})
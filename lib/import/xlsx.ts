@@ -0,0 +1,476 @@
+import * as path from "path"
+import { createHash } from "crypto"
+import { Readable } from "stream"
+import { StringDecoder } from "string_decoder"
+import { listZipMembers, openZipMember } from "@/lib/import/compression"
+import { XmlScanner, type XmlEvent } from "@/lib/import/xml"
+import type { SourceRecord } from "@/lib/import/records"
+
+export interface XlsxOptions {
+  // Sheet to read by name, the first sheet when not given
+  sheet?: string
+  // Cells to read in A1 notation, such as "B2:F100", "B2:F" or "B:F", the whole sheet when not given
+  range?: string
+  hasHeader: boolean
+  // Sheet row holding the column names, the first row of the range when not given
+  headerRow?: number
+  // Number of records to skip, as positions in a sheet count its records rather than bytes
+  start?: number
+}
+
+export interface CellRange {
+  startColumn: number
+  startRow: number
+  endColumn?: number
+  endRow?: number
+}
+
+export interface WorkbookSheet {
+  name: string
+  // Zip member holding the sheet
+  path: string
+}
+
+interface Workbook {
+  sheets: WorkbookSheet[]
+  // Whether date serial numbers count from 1904 instead of 1900, as in workbooks from old Macs
+  date1904: boolean
+  sharedStringsPath?: string
+  stylesPath?: string
+}
+
+interface Relationship {
+  type: string
+  target: string
+}
+
+type DateKind = "date" | "datetime" | "time"
+
+// Built-in number formats that show dates and times, by format id
+const BUILTIN_DATE_FORMATS: Record<number, DateKind> = {
+  14: "date",
+  15: "date",
+  16: "date",
+  17: "date",
+  18: "time",
+  19: "time",
+  20: "time",
+  21: "time",
+  22: "datetime",
+  45: "time",
+  46: "time",
+  47: "time",
+}
+// East Asian date formats
+for (const id of [27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 50, 51, 52, 53, 54, 55, 56, 57, 58]) {
+  BUILTIN_DATE_FORMATS[id] = "date"
+}
+
+// Serial number of 1970-01-01 in the 1900 date system, and the days the 1904 system is behind it
+const UNIX_EPOCH_SERIAL = 25569
+const DATE_1904_OFFSET = 1462
+const MS_PER_DAY = 86400000
+
+const CELL_RANGE_PATTERN = /^([A-Z]{1,3})(\d*)(?::([A-Z]{1,3})(\d*))?$/i
+
+// Column number of column letters, A being 1
+function columnNumber(letters: string): number {
+  return letters
+    .toUpperCase()
+    .split("")
+    .reduce((number, letter) => number * 26 + letter.charCodeAt(0) - 64, 0)
+}
+
+// Parse a cell range in A1 notation. Rows can be left out to take the columns to the end of the sheet.
+export function parseCellRange(text: string): CellRange {
+  const match = CELL_RANGE_PATTERN.exec(text.trim())
+  if (!match) {
+    throw new Error(`Invalid cell range "${text}", expected A1 notation such as B2:F100`)
+  }
+  const range: CellRange = {
+    startColumn: columnNumber(match[1]),
+    startRow: Number(match[2]) || 1,
+    endColumn: match[3] ? columnNumber(match[3]) : undefined,
+    endRow: match[4] ? Number(match[4]) : undefined,
+  }
+  if ((range.endColumn ?? Infinity) < range.startColumn || (range.endRow ?? Infinity) < range.startRow) {
+    throw new Error(`Invalid cell range "${text}": it ends before it starts`)
+  }
+  return range
+}
+
+// Whether text is a cell range `parseCellRange` accepts
+export function isValidCellRange(text: string): boolean {
+  try {
+    parseCellRange(text)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Read an optional header row from a form field: undefined when blank, NaN when not a row number
+export function parseHeaderRow(value: string | undefined): number | undefined {
+  if (!value) return undefined
+  const number = Number(value)
+  return Number.isInteger(number) && number >= 1 ? number : NaN
+}
+
+// Read a part of the workbook as it decompresses, one chunk of XML events at a time
+async function* readPartEvents(filePath: string, name: string): AsyncGenerator<XmlEvent[]> {
+  const decoder = new StringDecoder("utf8")
+  const scanner = new XmlScanner()
+  for await (const chunk of await openZipMember(filePath, name)) {
+    yield scanner.write(decoder.write(chunk as Buffer))
+  }
+  yield scanner.write(decoder.end())
+}
+
+// Targets of a part's relationships by id, as paths of zip members
+async function readRelationships(filePath: string, part: string): Promise<Map<string, Relationship>> {
+  const directory = path.posix.dirname(part)
+  const relationsPath = path.posix.join(directory, "_rels", `${path.posix.basename(part)}.rels`)
+  const relations = new Map<string, Relationship>()
+  const members = await listZipMembers(filePath)
+  if (!members.some((member) => member.name === relationsPath)) return relations
+
+  for await (const events of readPartEvents(filePath, relationsPath)) {
+    for (const event of events) {
+      if (event.kind !== "open" || event.name !== "Relationship") continue
+      const { Id, Type = "", Target = "" } = event.attributes
+      const target = Target.startsWith("/") ? Target.slice(1) : path.posix.normalize(path.posix.join(directory, Target))
+      relations.set(Id, { type: Type, target })
+    }
+  }
+  return relations
+}
+
+// Read the sheet list of a workbook and where its shared strings and styles are
+export async function readWorkbook(filePath: string): Promise<Workbook> {
+  // The package relationships point to the workbook part, found under the root's own name ""
+  const rootRelations = await readRelationships(filePath, "")
+  const workbookPath =
+    Array.from(rootRelations.values()).find((relation) => relation.type.endsWith("/officeDocument"))?.target ??
+    "xl/workbook.xml"
+  const relations = await readRelationships(filePath, workbookPath)
+  const findPart = (type: string) =>
+    Array.from(relations.values()).find((relation) => relation.type.endsWith(`/${type}`))?.target
+
+  const workbook: Workbook = {
+    sheets: [],
+    date1904: false,
+    sharedStringsPath: findPart("sharedStrings"),
+    stylesPath: findPart("styles"),
+  }
+  for await (const events of readPartEvents(filePath, workbookPath)) {
+    for (const event of events) {
+      if (event.kind !== "open") continue
+      if (event.name === "workbookPr") {
+        workbook.date1904 = event.attributes.date1904 === "1" || event.attributes.date1904 === "true"
+      }
+      // Chart sheets have no cells and are left out
+      const relation = event.name === "sheet" ? relations.get(event.attributes.id) : undefined
+      if (relation?.type.endsWith("/worksheet")) {
+        workbook.sheets.push({ name: event.attributes.name, path: relation.target })
+      }
+    }
+  }
+
+  if (workbook.sheets.length === 0) {
+    throw new Error("The workbook has no sheets")
+  }
+  return workbook
+}
+
+// Whether a number format shows a date, a time or both, ignoring literal text, colors and the
+// AM/PM marker. An "m" counts as a month unless hours or seconds are next to it.
+function dateKindOfFormat(code: string): DateKind | null {
+  const cleaned = code
+    .split(";")[0]
+    .replace(/"[^"]*"/g, "")
+    .replace(/[\\_*]./g, "")
+    .replace(/\[(?:h+|m+|s+)\]/gi, "h")
+    .replace(/\[[^\]]*\]/g, "")
+    .replace(/General|AM\/PM|A\/P/gi, "")
+  const hasTime = /[hs]/i.test(cleaned)
+  const hasDate = /[dy]/i.test(cleaned) || (/m/i.test(cleaned) && !hasTime)
+  return hasDate && hasTime ? "datetime" : hasDate ? "date" : hasTime ? "time" : null
+}
+
+// Which cell styles show dates or times, by style index
+async function readDateStyles(filePath: string, stylesPath: string | undefined): Promise<(DateKind | null)[]> {
+  if (!stylesPath) return []
+  const customFormats = new Map<number, DateKind | null>()
+  const styles: (DateKind | null)[] = []
+  let inCellFormats = false
+
+  for await (const events of readPartEvents(filePath, stylesPath)) {
+    for (const event of events) {
+      if (event.kind === "close" && event.name === "cellXfs") inCellFormats = false
+      if (event.kind !== "open") continue
+      if (event.name === "numFmt") {
+        customFormats.set(Number(event.attributes.numFmtId), dateKindOfFormat(event.attributes.formatCode ?? ""))
+      } else if (event.name === "cellXfs") {
+        inCellFormats = !event.selfClosing
+      } else if (event.name === "xf" && inCellFormats) {
+        const formatId = Number(event.attributes.numFmtId ?? 0)
+        const custom = customFormats.get(formatId)
+        styles.push(custom !== undefined ? custom : (BUILTIN_DATE_FORMATS[formatId] ?? null))
+      }
+    }
+  }
+  return styles
+}
+
+// Read the shared strings cells refer to by index. Rich text runs are joined, phonetic hints left out.
+async function readSharedStrings(filePath: string, sharedStringsPath: string | undefined): Promise<string[]> {
+  if (!sharedStringsPath) return []
+  const strings: string[] = []
+  let current = ""
+  let inText = false
+  let inPhonetic = false
+
+  for await (const events of readPartEvents(filePath, sharedStringsPath)) {
+    for (const event of events) {
+      if (event.kind === "text") {
+        if (inText && !inPhonetic) current += event.text
+      } else if (event.kind === "open") {
+        if (event.name === "si") current = ""
+        if (event.name === "t" && !event.selfClosing) inText = true
+        if (event.name === "rPh" && !event.selfClosing) inPhonetic = true
+        if (event.name === "si" && event.selfClosing) strings.push("")
+      } else {
+        if (event.name === "t") inText = false
+        if (event.name === "rPh") inPhonetic = false
+        if (event.name === "si") strings.push(current)
+      }
+    }
+  }
+  return strings
+}
+
+// Text of a date serial number: a date, a date and time, or a time of day
+function formatSerialDate(serial: number, kind: DateKind, date1904: boolean): string {
+  // The 1900 system counts a February 29 that 1900 did not have, so serials before it are a day ahead
+  const days = date1904 ? serial + DATE_1904_OFFSET : serial < 60 ? serial + 1 : serial
+  const iso = new Date(Math.round((days - UNIX_EPOCH_SERIAL) * MS_PER_DAY)).toISOString()
+  const date = iso.slice(0, 10)
+  const time = iso.slice(20, 23) === "000" ? iso.slice(11, 19) : iso.slice(11, 23)
+  if (kind === "date") return date
+  if (kind === "time" && serial < 1) return time
+  return `${date} ${time}`
+}
+
+// Where a sheet's rows stand while its XML is read
+interface RowState {
+  number: number
+  cells: Map<number, string>
+  nextColumn: number
+}
+
+// Turns the XML events of a sheet into rows of cell text. Numbers keep their text, booleans become
+// true or false, errors are left empty, and numbers in date styles become dates and times.
+class SheetRowReader {
+  // Completed rows not yet taken
+  readonly rows: RowState[] = []
+  // Columns and last row of the sheet's used area, when the sheet says
+  dimension: { startColumn?: number; endColumn?: number; endRow?: number } = {}
+  done = false
+  private row: RowState = { number: 0, cells: new Map(), nextColumn: 1 }
+  private cell: { column: number; type: string; style: number } | null = null
+  private value = ""
+  private inValue = false
+  // Phonetic hints of inline strings are left out, like those of shared strings
+  private inPhonetic = false
+
+  constructor(
+    private readonly strings: string[],
+    private readonly dateStyles: (DateKind | null)[],
+    private readonly date1904: boolean,
+  ) {}
+
+  private cellText(type: string, style: number, value: string): string {
+    switch (type) {
+      case "s":
+        return this.strings[Number(value)] ?? ""
+      case "b":
+        return value === "1" ? "true" : "false"
+      case "e":
+        return ""
+      case "inlineStr":
+      case "str":
+      case "d":
+        return value
+      default: {
+        const dateKind = this.dateStyles[style]
+        return dateKind && value !== "" ? formatSerialDate(Number(value), dateKind, this.date1904) : value
+      }
+    }
+  }
+
+  handle(event: XmlEvent) {
+    if (event.kind === "text") {
+      if (this.inValue) this.value += event.text
+      return
+    }
+
+    if (event.kind === "open") {
+      switch (event.name) {
+        case "dimension": {
+          // A single cell is given for an empty sheet
+          const match = /^([A-Z]+)\d+:([A-Z]+)(\d+)$/i.exec(event.attributes.ref ?? "")
+          if (match) {
+            this.dimension = {
+              startColumn: columnNumber(match[1]),
+              endColumn: columnNumber(match[2]),
+              endRow: Number(match[3]),
+            }
+          }
+          break
+        }
+        case "row":
+          this.row = {
+            number: Number(event.attributes.r) || this.row.number + 1,
+            cells: new Map(),
+            nextColumn: 1,
+          }
+          if (event.selfClosing) this.rows.push(this.row)
+          break
+        case "c": {
+          const reference = /^([A-Z]+)/i.exec(event.attributes.r ?? "")
+          const column = reference ? columnNumber(reference[1]) : this.row.nextColumn
+          this.row.nextColumn = column + 1
+          this.cell = event.selfClosing
+            ? null
+            : { column, type: event.attributes.t ?? "n", style: Number(event.attributes.s ?? 0) }
+          this.value = ""
+          break
+        }
+        case "v":
+        case "t":
+          this.inValue = this.cell !== null && !event.selfClosing && !this.inPhonetic
+          break
+        case "rPh":
+          this.inPhonetic = !event.selfClosing
+          break
+      }
+      return
+    }
+
+    switch (event.name) {
+      case "v":
+      case "t":
+        this.inValue = false
+        break
+      case "rPh":
+        this.inPhonetic = false
+        break
+      case "c":
+        if (this.cell) {
+          const text = this.cellText(this.cell.type, this.cell.style, this.value)
+          if (text !== "") this.row.cells.set(this.cell.column, text)
+          this.cell = null
+        }
+        break
+      case "row":
+        this.rows.push(this.row)
+        break
+      case "sheetData":
+        this.done = true
+        break
+    }
+  }
+}
+
+async function openSheet(filePath: string, options: XlsxOptions) {
+  const workbook = await readWorkbook(filePath)
+  const sheet = options.sheet
+    ? workbook.sheets.find((candidate) => candidate.name === options.sheet)
+    : workbook.sheets[0]
+  if (!sheet) {
+    throw new Error(`The workbook has no sheet "${options.sheet}"`)
+  }
+  const [strings, dateStyles] = await Promise.all([
+    readSharedStrings(filePath, workbook.sharedStringsPath),
+    readDateStyles(filePath, workbook.stylesPath),
+  ])
+  return { sheet, reader: new SheetRowReader(strings, dateStyles, workbook.date1904) }
+}
+
+// Number of rows to read from a sheet, from its range or its used area, 0 when the sheet doesn't say
+export async function countSheetRows(filePath: string, options: XlsxOptions): Promise<number> {
+  const range = parseCellRange(options.range || "A1")
+  if (range.endRow) return range.endRow - range.startRow + 1
+
+  const { sheet, reader } = await openSheet(filePath, options)
+  for await (const events of readPartEvents(filePath, sheet.path)) {
+    for (const event of events) {
+      reader.handle(event)
+      // The used area is given before the cells
+      if (event.kind === "open" && event.name === "sheetData") {
+        return Math.max(0, (reader.dimension.endRow ?? 0) - range.startRow + 1)
+      }
+    }
+  }
+  return 0
+}
+
+// SHA-256 of the workbook's directory, which holds the checksum and size of every part
+export async function hashWorkbook(filePath: string): Promise<string> {
+  return createHash("sha256")
+    .update(JSON.stringify(await listZipMembers(filePath)))
+    .digest("hex")
+}
+
+// Stream the rows of a sheet in an .xlsx workbook on disk. Records have the shape of CSV records,
+// the header row first when there is one, and hold the cells of the range's columns. Empty rows
+// are skipped. `info.lines` is the sheet's row number and `info.bytes` counts records.
+export function createXlsxStream(filePath: string, options: XlsxOptions): Readable & { info: SourceRecord["info"] } {
+  const { start = 0 } = options
+  const range = parseCellRange(options.range || "A1")
+  const firstRow = options.hasHeader && options.headerRow ? Math.max(options.headerRow, range.startRow) : range.startRow
+  const info = { lines: 0, bytes: 0 }
+
+  async function* readRows(): AsyncGenerator<SourceRecord> {
+    const { sheet, reader } = await openSheet(filePath, options)
+    let startColumn = options.range ? range.startColumn : undefined
+    let endColumn = range.endColumn
+    let recordIndex = 0
+    // Row of the last record skipped to resume, as lines are counted from it
+    let startLine = 0
+
+    for await (const events of readPartEvents(filePath, sheet.path)) {
+      for (const event of events) {
+        reader.handle(event)
+      }
+      // Without a range, records span the sheet's used columns, or those of the first row read
+      startColumn ??= reader.dimension.startColumn
+      endColumn ??= reader.dimension.endColumn
+
+      for (const row of reader.rows.splice(0)) {
+        if (row.number < firstRow) continue
+        if (range.endRow && row.number > range.endRow) return
+
+        startColumn ??= 1
+        const lastColumn = endColumn ?? Math.max(startColumn, ...row.cells.keys())
+        const record: string[] = []
+        for (let column = startColumn; column <= lastColumn; column++) {
+          record.push(row.cells.get(column) ?? "")
+        }
+        if (record.every((value) => value === "")) continue
+        endColumn = lastColumn
+
+        if (recordIndex++ < start) {
+          startLine = row.number
+          continue
+        }
+        info.bytes++
+        info.lines = row.number - startLine
+        yield { record, info: { ...info }, raw: JSON.stringify(record) }
+      }
+      if (reader.done) return
+    }
+  }
+
+  return Object.assign(Readable.from(readRows()), { info })
+}
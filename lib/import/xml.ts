@@ -0,0 +1,100 @@
+// A small streaming XML scanner for the parts of Excel workbooks. It splits text into tags and
+// character data as it arrives, without building a tree, so sheets of any size can be read.
+// Namespace prefixes are dropped from element and attribute names.
+
+export type XmlEvent =
+  | { kind: "open"; name: string; attributes: Record<string, string>; selfClosing: boolean }
+  | { kind: "close"; name: string }
+  | { kind: "text"; text: string }
+
+const ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" }
+
+const ATTRIBUTE_PATTERN = /([^\s=/]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(":") + 1)
+}
+
+export function decodeEntities(text: string): string {
+  if (!text.includes("&")) return text
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith("#x") || name.startsWith("#X")) return String.fromCodePoint(parseInt(name.slice(2), 16))
+    if (name.startsWith("#")) return String.fromCodePoint(Number(name.slice(1)))
+    return ENTITIES[name] ?? entity
+  })
+}
+
+// End of the tag starting at `start`, skipping ">" inside quoted attribute values, or -1
+function findTagEnd(text: string, start: number): number {
+  let quote = ""
+  for (let i = start + 1; i < text.length; i++) {
+    const ch = text[i]
+    if (quote) {
+      if (ch === quote) quote = ""
+    } else if (ch === '"' || ch === "'") {
+      quote = ch
+    } else if (ch === ">") {
+      return i
+    }
+  }
+  return -1
+}
+
+export class XmlScanner {
+  private text = ""
+
+  // Add the next piece of the document, returning the events completed by it
+  write(chunk: string): XmlEvent[] {
+    this.text += chunk
+    const events: XmlEvent[] = []
+    let pos = 0
+
+    for (;;) {
+      const open = this.text.indexOf("<", pos)
+      if (open < 0) break
+      if (open > pos) {
+        events.push({ kind: "text", text: decodeEntities(this.text.slice(pos, open)) })
+        pos = open
+      }
+
+      // Comments, character data and declarations end with their own markers
+      if (this.text.startsWith("<!--", open)) {
+        const end = this.text.indexOf("-->", open + 4)
+        if (end < 0) break
+        pos = end + 3
+        continue
+      }
+      if (this.text.startsWith("<![CDATA[", open)) {
+        const end = this.text.indexOf("]]>", open + 9)
+        if (end < 0) break
+        events.push({ kind: "text", text: this.text.slice(open + 9, end) })
+        pos = end + 3
+        continue
+      }
+
+      const end = findTagEnd(this.text, open)
+      if (end < 0) break
+      const tag = this.text.slice(open + 1, end)
+      pos = end + 1
+
+      if (tag.startsWith("?") || tag.startsWith("!")) continue
+      if (tag.startsWith("/")) {
+        events.push({ kind: "close", name: localName(tag.slice(1).trim()) })
+        continue
+      }
+
+      const selfClosing = tag.endsWith("/")
+      const body = selfClosing ? tag.slice(0, -1) : tag
+      const nameEnd = body.search(/[\s]|$/)
+      const attributes: Record<string, string> = {}
+      for (const match of body.slice(nameEnd).matchAll(ATTRIBUTE_PATTERN)) {
+        attributes[localName(match[1])] = decodeEntities(match[2] ?? match[3])
+      }
+      events.push({ kind: "open", name: localName(body.slice(0, nameEnd)), attributes, selfClosing })
+    }
+
+    // Keep the incomplete tail, including text that may continue in the next chunk
+    this.text = this.text.slice(pos)
+    return events
+  }
+}
@@ -0,0 +1,331 @@
+// Quoting and validation for everything that ends up inside a SQL statement.
+// Identifiers are backtick-quoted, column types must match an allowlisted grammar,
+// and literal values are passed to ClickHouse as query parameters instead.
+
+export class SqlValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "SqlValidationError"
+  }
+}
+
+// Quote a table or column name, e.g. Order Date -> `Order Date`
+export function quoteIdentifier(name: string): string {
+  if (typeof name !== "string" || name.length === 0) {
+    throw new SqlValidationError("Identifiers must not be empty")
+  }
+  if (name.includes("\0")) {
+    throw new SqlValidationError(`Identifier "${name}" contains a NUL character`)
+  }
+  return "`" + name.replace(/\\/g, "\\\\").replace(/`/g, "\\`") + "`"
+}
+
+function quoteString(value: string): string {
+  return "'" + value.replace(/\\/g, "\\\\").replace(/'/g, "\\'") + "'"
+}
+
+// Parse a positive integer for use in LIMIT and similar clauses
+export function parseLimit(value: unknown): number {
+  const limit = Number(value)
+  if (!Number.isInteger(limit) || limit < 0) {
+    throw new SqlValidationError(`Invalid limit "${value}"`)
+  }
+  return limit
+}
+
+// Parse a JSON field of a request, so malformed input is reported as such instead of as a server error
+export function parseJsonField(json: string, field: string): unknown {
+  try {
+    return JSON.parse(json)
+  } catch {
+    throw new SqlValidationError(`The ${field} field is not valid JSON`)
+  }
+}
+
+const SIMPLE_TYPES = new Set([
+  "Int8",
+  "Int16",
+  "Int32",
+  "Int64",
+  "Int128",
+  "Int256",
+  "UInt8",
+  "UInt16",
+  "UInt32",
+  "UInt64",
+  "UInt128",
+  "UInt256",
+  "Float32",
+  "Float64",
+  "Bool",
+  "String",
+  "UUID",
+  "Date",
+  "Date32",
+  "IPv4",
+  "IPv6",
+  "JSON",
+])
+
+// Types that take a single inner type, e.g. Nullable(String)
+const WRAPPER_TYPES = new Set(["Nullable", "LowCardinality", "Array"])
+
+const DECIMAL_SCALE_TYPES = new Set(["Decimal32", "Decimal64", "Decimal128", "Decimal256"])
+
+const TIME_ZONE_PATTERN = /^[A-Za-z0-9_+\-/]+$/
+
+interface Token {
+  kind: "word" | "number" | "string" | "identifier" | "punct"
+  value: string
+}
+
+function tokenizeType(input: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < input.length) {
+    const ch = input[i]
+
+    if (/\s/.test(ch)) {
+      i++
+      continue
+    }
+
+    if ("(),=".includes(ch)) {
+      tokens.push({ kind: "punct", value: ch })
+      i++
+      continue
+    }
+
+    // Quoted strings ('...') and quoted identifiers (`...`) with backslash escapes
+    if (ch === "'" || ch === "`") {
+      let value = ""
+      i++
+      while (i < input.length && input[i] !== ch) {
+        if (input[i] === "\\" && i + 1 < input.length) i++
+        value += input[i]
+        i++
+      }
+      if (i >= input.length) {
+        throw new SqlValidationError(`Unterminated quote in column type "${input}"`)
+      }
+      i++
+      tokens.push({ kind: ch === "'" ? "string" : "identifier", value })
+      continue
+    }
+
+    const rest = input.slice(i)
+    const word = /^[A-Za-z_][A-Za-z0-9_]*/.exec(rest)
+    if (word) {
+      tokens.push({ kind: "word", value: word[0] })
+      i += word[0].length
+      continue
+    }
+
+    const number = /^-?\d+/.exec(rest)
+    if (number) {
+      tokens.push({ kind: "number", value: number[0] })
+      i += number[0].length
+      continue
+    }
+
+    throw new SqlValidationError(`Unexpected character "${ch}" in column type "${input}"`)
+  }
+
+  return tokens
+}
+
+class TypeParser {
+  private pos = 0
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly input: string,
+  ) {}
+
+  private fail(): never {
+    throw new SqlValidationError(`Unsupported column type "${this.input}"`)
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.pos + offset]
+  }
+
+  private next(kind: Token["kind"], value?: string): string {
+    const token = this.tokens[this.pos]
+    if (!token || token.kind !== kind || (value !== undefined && token.value !== value)) {
+      this.fail()
+    }
+    this.pos++
+    return token.value
+  }
+
+  private accept(value: string): boolean {
+    const token = this.peek()
+    if (token?.kind === "punct" && token.value === value) {
+      this.pos++
+      return true
+    }
+    return false
+  }
+
+  private integer(min: number, max: number): number {
+    const value = Number(this.next("number"))
+    if (value < min || value > max) {
+      this.fail()
+    }
+    return value
+  }
+
+  private timeZone(): string {
+    const zone = this.next("string")
+    if (!TIME_ZONE_PATTERN.test(zone)) {
+      this.fail()
+    }
+    return quoteString(zone)
+  }
+
+  parseAll(): string {
+    const type = this.parseType()
+    if (this.pos !== this.tokens.length) {
+      this.fail()
+    }
+    return type
+  }
+
+  parseType(): string {
+    const name = this.next("word")
+
+    if (SIMPLE_TYPES.has(name)) {
+      return name
+    }
+
+    if (WRAPPER_TYPES.has(name)) {
+      this.next("punct", "(")
+      const inner = this.parseType()
+      this.next("punct", ")")
+      return `${name}(${inner})`
+    }
+
+    if (name === "Map") {
+      this.next("punct", "(")
+      const key = this.parseType()
+      this.next("punct", ",")
+      const value = this.parseType()
+      this.next("punct", ")")
+      return `Map(${key}, ${value})`
+    }
+
+    if (name === "Tuple") {
+      this.next("punct", "(")
+      const elements: string[] = []
+      do {
+        // Named elements look like `name Type`, unnamed ones are just `Type`
+        const first = this.peek()
+        const second = this.peek(1)
+        if (first && (first.kind === "word" || first.kind === "identifier") && second?.kind === "word") {
+          this.pos++
+          elements.push(`${quoteIdentifier(first.value)} ${this.parseType()}`)
+        } else {
+          elements.push(this.parseType())
+        }
+      } while (this.accept(","))
+      this.next("punct", ")")
+      return `Tuple(${elements.join(", ")})`
+    }
+
+    if (name === "FixedString") {
+      this.next("punct", "(")
+      const length = this.integer(1, 1_000_000)
+      this.next("punct", ")")
+      return `FixedString(${length})`
+    }
+
+    if (name === "Decimal") {
+      this.next("punct", "(")
+      const precision = this.integer(1, 76)
+      this.next("punct", ",")
+      const scale = this.integer(0, precision)
+      this.next("punct", ")")
+      return `Decimal(${precision}, ${scale})`
+    }
+
+    if (DECIMAL_SCALE_TYPES.has(name)) {
+      this.next("punct", "(")
+      const scale = this.integer(0, 76)
+      this.next("punct", ")")
+      return `${name}(${scale})`
+    }
+
+    if (name === "DateTime") {
+      if (!this.accept("(")) {
+        return name
+      }
+      const zone = this.timeZone()
+      this.next("punct", ")")
+      return `DateTime(${zone})`
+    }
+
+    if (name === "DateTime64") {
+      this.next("punct", "(")
+      const precision = this.integer(0, 9)
+      const zone = this.accept(",") ? `, ${this.timeZone()}` : ""
+      this.next("punct", ")")
+      return `DateTime64(${precision}${zone})`
+    }
+
+    if (name === "Enum8" || name === "Enum16") {
+      this.next("punct", "(")
+      const values: string[] = []
+      do {
+        const label = quoteString(this.next("string"))
+        this.next("punct", "=")
+        const value = this.integer(name === "Enum8" ? -128 : -32768, name === "Enum8" ? 127 : 32767)
+        values.push(`${label} = ${value}`)
+      } while (this.accept(","))
+      this.next("punct", ")")
+      return `${name}(${values.join(", ")})`
+    }
+
+    this.fail()
+  }
+}
+
+// Validate a column type against the supported type grammar and return it in
+// canonical form. Throws SqlValidationError for anything outside the grammar.
+export function normalizeColumnType(type: string): string {
+  if (typeof type !== "string" || type.trim() === "") {
+    throw new SqlValidationError("Column type must not be empty")
+  }
+  return new TypeParser(tokenizeType(type), type).parseAll()
+}
+
+// Tokens allowed in a free-form expression such as a PARTITION BY key
+const EXPRESSION_TOKEN = /^(?:\s+|[A-Za-z_][A-Za-z0-9_]*|`(?:[^`\\]|\\.)*`|'(?:[^'\\]|\\.)*'|\d+(?:\.\d+)?|[(),+*%<>=!]|\/(?!\*)|-(?!-))/
+
+// Validate a simple expression built from column names, function calls, literals and
+// arithmetic. Statement separators, comments and anything else outside that set are rejected.
+export function validateExpression(expression: string): string {
+  const trimmed = expression.trim()
+  let rest = trimmed
+
+  while (rest.length > 0) {
+    const match = EXPRESSION_TOKEN.exec(rest)
+    if (!match) {
+      throw new SqlValidationError(`Unsupported expression "${expression}"`)
+    }
+    rest = rest.slice(match[0].length)
+  }
+
+  let depth = 0
+  for (const ch of trimmed.replace(/`(?:[^`\\]|\\.)*`|'(?:[^'\\]|\\.)*'/g, "")) {
+    if (ch === "(") depth++
+    if (ch === ")") depth--
+    if (depth < 0) break
+  }
+  if (depth !== 0) {
+    throw new SqlValidationError(`Unbalanced parentheses in expression "${expression}"`)
+  }
+
+  return trimmed
+}
@@ -0,0 +1,13 @@
+import { fileURLToPath } from "url"
+import { defineConfig } from "vitest/config"
+
+/** @type {import('vitest/config').UserConfig} */
+export default defineConfig({
+  resolve: {
+    // Same alias as the "@/*" path in tsconfig.json
+    alias: { "@": fileURLToPath(new URL(".", import.meta.url)) },
+  },
+  test: {
+    include: ["lib/**/*.test.ts"],
+  },
+})